@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock } from "lucide-react";
+import { ACTION_ITEM_OWNER_LABELS, ActionItemRecord, formatDueDate, isOverdue, setActionItemDone } from "@/lib/actionItems";
+import { formatTimestamp } from "@/lib/format";
+
+interface ActionItemListProps {
+  items: ActionItemRecord[];
+  onChange: (item: ActionItemRecord) => void;
+  showCall?: boolean;
+  onSelectSegment?: (segmentId: number) => void;
+}
+
+export const ActionItemList = ({ items, onChange, showCall = false, onSelectSegment }: ActionItemListProps) => {
+  const [updating, setUpdating] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const toggleDone = async (item: ActionItemRecord, done: boolean) => {
+    setUpdating(item.id);
+    try {
+      onChange({ ...item, completedAt: await setActionItemDone(item.id, done) });
+    } catch (error) {
+      toast({
+        title: "Could not update action item",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  return (
+    <ul className="divide-y">
+      {items.map(item => (
+        <li key={item.id} className="flex items-start gap-3 py-3">
+          <Checkbox
+            className="mt-0.5"
+            checked={item.completedAt !== null}
+            disabled={updating === item.id}
+            onCheckedChange={checked => toggleDone(item, checked === true)}
+            aria-label={`Mark "${item.description}" as done`}
+          />
+          <div className="flex-1 space-y-1">
+            <p className={`text-sm ${item.completedAt ? "line-through text-muted-foreground" : ""}`}>
+              {item.description}
+            </p>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              <Badge variant="outline" className="px-1.5 py-0 text-[10px] font-normal">
+                {ACTION_ITEM_OWNER_LABELS[item.owner]}
+              </Badge>
+              {(item.dueDate || item.dueText) && (
+                <span className={`flex items-center gap-1 ${isOverdue(item) ? "text-red-600" : ""}`}>
+                  <CalendarClock className="h-3 w-3" />
+                  {item.dueDate ? formatDueDate(item.dueDate) : item.dueText}
+                  {item.dueDate && item.dueText && ` ("${item.dueText}")`}
+                </span>
+              )}
+              {onSelectSegment ? (
+                <button
+                  type="button"
+                  className="hover:text-primary hover:underline"
+                  onClick={() => onSelectSegment(item.segmentId)}
+                >
+                  Said at {formatTimestamp(item.segmentStart)}
+                </button>
+              ) : (
+                <span>Said at {formatTimestamp(item.segmentStart)}</span>
+              )}
+              {showCall && item.call && (
+                <span>
+                  · {item.call.fileName}, {new Date(item.call.createdAt).toLocaleDateString()}
+                </span>
+              )}
+            </div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+};
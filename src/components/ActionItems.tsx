@@ -0,0 +1,55 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { ListTodo } from "lucide-react";
+import { ActionItemRecord, fetchActionItems } from "@/lib/actionItems";
+import { ActionItemList } from "./ActionItemList";
+
+interface ActionItemsProps {
+  transcriptionId: string;
+  onSelectSegment: (segmentId: number) => void;
+}
+
+// The report's view of one call's commitments; done state is shared with the task list
+export const ActionItems = ({ transcriptionId, onSelectSegment }: ActionItemsProps) => {
+  const [items, setItems] = useState<ActionItemRecord[] | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchActionItems(transcriptionId)
+      .then(setItems)
+      .catch(error => toast({
+        title: "Could not load action items",
+        description: error.message,
+        variant: "destructive"
+      }));
+  }, [transcriptionId, toast]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ListTodo className="h-5 w-5" />
+          <span>Action Items</span>
+        </CardTitle>
+        <CardDescription>
+          Commitments made on the call. Open items also appear on the <Link to="/tasks" className="underline">Tasks</Link> page.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {items === null ? (
+          <p className="text-sm text-muted-foreground">Loading action items...</p>
+        ) : items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No commitments were made on this call</p>
+        ) : (
+          <ActionItemList
+            items={items}
+            onChange={updated => setItems(prev => prev && prev.map(item => item.id === updated.id ? updated : item))}
+            onSelectSegment={onSelectSegment}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,59 @@
+import { NavLink } from "react-router-dom";
+import { LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { signOut } from "@/lib/auth";
+import { forgetJobIds } from "@/lib/transcriptionJobs";
+import { cn } from "@/lib/utils";
+
+const NAV_ITEMS = [
+  { to: "/", label: "Calls" },
+  { to: "/tasks", label: "Tasks" },
+  { to: "/rubrics", label: "Rubrics" },
+  { to: "/settings", label: "Settings" }
+];
+
+export const AppNav = () => {
+  const { session } = useAuth();
+  const { toast } = useToast();
+
+  // RequireAuth sends the page to /auth once the session is gone
+  const handleSignOut = () => {
+    signOut()
+      .then(forgetJobIds)
+      .catch(error => toast({
+        title: "Could not sign out",
+        description: error.message,
+        variant: "destructive"
+      }));
+  };
+
+  return (
+    <nav className="flex items-center gap-1">
+      {NAV_ITEMS.map(item => (
+        <NavLink
+          key={item.to}
+          to={item.to}
+          end
+          className={({ isActive }) => cn(
+            "px-3 py-1.5 rounded-md text-sm font-medium transition-colors",
+            isActive ? "bg-muted text-foreground" : "text-muted-foreground hover:text-foreground"
+          )}
+        >
+          {item.label}
+        </NavLink>
+      ))}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="text-muted-foreground"
+        title={session?.user.email ? `Signed in as ${session.user.email}` : undefined}
+        onClick={handleSignOut}
+      >
+        <LogOut className="h-4 w-4 mr-2" />
+        Sign out
+      </Button>
+    </nav>
+  );
+};
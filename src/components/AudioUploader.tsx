@@ -1,31 +1,63 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
 import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { Upload, FileAudio, X } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
+import { rememberJobId } from "@/lib/transcriptionJobs";
+import { Rubric, fetchRubrics } from "@/lib/rubrics";
+import { CALL_TYPES, CALL_TYPE_LABELS } from "@/lib/callTypes";
+import { describeLimitReached, fetchUsageQuota, readQuotaExceeded } from "@/lib/usage";
+import { UsageQuota } from "@/lib/usageQuota";
+import { TranscriptionData, TranscriptionStatus } from "@/types/transcription";
+import { CallType } from "@/types/rubricSchema";
+import { UsageQuotaSummary } from "./UsageQuotaSummary";
 
-interface TranscriptionResponse {
-  transcript: string;
-  anomalies: string[];
-  suggestions: string[];
-  duration: number;
-  analysis: any;
+// Select value meaning "let the worker decide"
+const AUTOMATIC = "auto";
+
+interface UploadSlot {
+  audioFilePath: string;
+  token: string;
+}
+
+interface TranscriptionSubmitResponse {
+  id: string;
+  status: TranscriptionStatus;
 }
 
 interface AudioUploaderProps {
-  onTranscriptionStart: (data: any) => void;
+  onTranscriptionStart: (data: Partial<TranscriptionData>) => void;
 }
 
 export const AudioUploader = ({ onTranscriptionStart }: AudioUploaderProps) => {
   const [file, setFile] = useState<File | null>(null);
   const [uploading, setUploading] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [rubricId, setRubricId] = useState(AUTOMATIC);
+  const [callType, setCallType] = useState(AUTOMATIC);
+  const [agentSide, setAgentSide] = useState(AUTOMATIC);
+  const [quota, setQuota] = useState<UsageQuota | null>(null);
   const { toast } = useToast();
 
+  const refreshQuota = useCallback(() => {
+    fetchUsageQuota()
+      .then(setQuota)
+      .catch(error => console.error('Failed to load usage:', error));
+  }, []);
+
+  useEffect(() => {
+    fetchRubrics()
+      .then(setRubrics)
+      .catch(error => console.error('Failed to load rubrics:', error));
+    refreshQuota();
+  }, [refreshQuota]);
+
   const handleFileSelect = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
     if (selectedFile) {
@@ -66,20 +98,6 @@ export const AudioUploader = ({ onTranscriptionStart }: AudioUploaderProps) => {
     event.preventDefault();
   }, []);
 
-  const convertFileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onload = () => {
-        const base64 = reader.result as string;
-        // Remove the data URL prefix to get just the base64 string
-        const base64Data = base64.split(',')[1];
-        resolve(base64Data);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(file);
-    });
-  };
-
   const handleUpload = async () => {
     if (!file) {
       toast({
@@ -94,49 +112,73 @@ export const AudioUploader = ({ onTranscriptionStart }: AudioUploaderProps) => {
     setProgress(0);
 
     try {
-      // Start transcription process
-      onTranscriptionStart({
-        status: 'processing',
-        transcript: '',
-        anomalies: [],
-        suggestions: [],
-        duration: 0
+      // `audio-upload` checks the quotas and hands out a one-time upload URL
+      // under the user's folder; nothing is stored when a limit is reached
+      const { data: slot, error: slotError } = await supabase.functions.invoke<UploadSlot>('audio-upload', {
+        body: { fileName: file.name, fileSize: file.size, contentType: file.type }
       });
 
-      // Convert file to base64
-      const base64Audio = await convertFileToBase64(file);
-      setProgress(30);
+      if (slotError) {
+        const exceeded = await readQuotaExceeded(slotError);
+        if (exceeded) {
+          setQuota(exceeded);
+          toast({
+            title: "Usage limit reached",
+            description: describeLimitReached(exceeded),
+            variant: "destructive"
+          });
+          setProgress(0);
+          return;
+        }
+        throw new Error(slotError.message || 'Upload failed');
+      }
+
+      const { audioFilePath } = slot;
+      setProgress(10);
 
-      // Call the transcription edge function
-      const { data, error } = await supabase.functions.invoke('transcribe-audio', {
+      const { error: uploadError } = await supabase.storage
+        .from('audio-files')
+        .uploadToSignedUrl(audioFilePath, slot.token, file, { contentType: file.type });
+
+      if (uploadError) {
+        throw new Error(uploadError.message || 'Upload failed');
+      }
+
+      setProgress(80);
+
+      // Queue the transcription job; the worker reads the file from storage
+      const { data, error } = await supabase.functions.invoke<TranscriptionSubmitResponse>('transcribe-audio', {
         body: { 
-          audio: base64Audio,
+          audioFilePath,
           fileName: file.name,
-          fileType: file.type
+          fileSize: file.size,
+          rubricId: rubricId === AUTOMATIC ? null : rubricId,
+          callType: callType === AUTOMATIC ? null : callType,
+          agentSide: agentSide === AUTOMATIC ? null : agentSide
         }
       });
 
-      setProgress(70);
-
       if (error) {
         throw new Error(error.message || 'Transcription failed');
       }
 
       setProgress(100);
+      rememberJobId(data.id);
+      refreshQuota();
 
-      // Process the response with full analysis
       onTranscriptionStart({
-        status: 'completed',
-        transcript: data.transcript || 'No transcript available',
-        anomalies: data.anomalies || [],
-        suggestions: data.suggestions || [],
-        duration: data.duration || 0,
-        analysis: data.analysis || null
+        id: data.id,
+        status: data.status,
+        fileName: file.name,
+        transcript: '',
+        anomalies: [],
+        suggestions: [],
+        duration: 0
       });
 
       toast({
-        title: "Transcription completed",
-        description: "Your audio has been successfully transcribed and analyzed"
+        title: "Transcription queued",
+        description: "Your audio is being processed. You can follow its progress in Call History."
       });
 
       // Reset state
@@ -145,14 +187,6 @@ export const AudioUploader = ({ onTranscriptionStart }: AudioUploaderProps) => {
 
     } catch (error) {
       console.error('Upload error:', error);
-      
-      onTranscriptionStart({
-        status: 'error',
-        transcript: 'Error during transcription',
-        anomalies: [],
-        suggestions: [],
-        duration: 0
-      });
 
       toast({
         title: "Transcription failed",
@@ -220,7 +254,7 @@ export const AudioUploader = ({ onTranscriptionStart }: AudioUploaderProps) => {
             {uploading && (
               <div className="mt-4 space-y-2">
                 <div className="flex justify-between text-sm">
-                  <span>Processing...</span>
+                  <span>Uploading...</span>
                   <span>{progress}%</span>
                 </div>
                 <Progress value={progress} />
@@ -230,14 +264,62 @@ export const AudioUploader = ({ onTranscriptionStart }: AudioUploaderProps) => {
         </Card>
       )}
 
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label>Call type</Label>
+          <Select value={callType} onValueChange={setCallType} disabled={uploading}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTOMATIC}>Not specified</SelectItem>
+              {CALL_TYPES.map((type: CallType) => (
+                <SelectItem key={type} value={type}>{CALL_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Agent side</Label>
+          <Select value={agentSide} onValueChange={setAgentSide} disabled={uploading}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTOMATIC}>Detect automatically</SelectItem>
+              <SelectItem value="caller">Agent placed the call</SelectItem>
+              <SelectItem value="receiver">Agent answered the call</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Scoring rubric</Label>
+          <Select value={rubricId} onValueChange={setRubricId} disabled={uploading}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={AUTOMATIC}>Default for call type</SelectItem>
+              {rubrics.map(rubric => (
+                <SelectItem key={rubric.id} value={rubric.id}>
+                  {rubric.name} (v{rubric.version})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
       <Button 
         onClick={handleUpload} 
         disabled={!file || uploading}
         className="w-full"
         size="lg"
       >
-        {uploading ? "Processing..." : "Transcribe Audio"}
+        {uploading ? "Uploading..." : "Transcribe Audio"}
       </Button>
+
+      {quota && <UsageQuotaSummary quota={quota} />}
     </div>
   );
 };
\ No newline at end of file
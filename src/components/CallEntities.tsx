@@ -0,0 +1,103 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Download, Tags } from "lucide-react";
+import {
+  ENTITY_TYPES,
+  ENTITY_TYPE_LABELS,
+  ENTITY_TYPE_STYLES,
+  entitiesToCsv,
+  formatEntityValue,
+  uniqueEntities
+} from "@/lib/entities";
+import { CallAnalysis, CallEntity } from "@/types/transcription";
+
+interface EntityChipProps {
+  entity: CallEntity;
+  showType?: boolean;
+  onClick?: () => void;
+}
+
+export const EntityChip = ({ entity, showType = true, onClick }: EntityChipProps) => {
+  const className = `inline-flex items-center gap-1 rounded border px-1.5 py-0 text-[11px] ${ENTITY_TYPE_STYLES[entity.type]}`;
+  const content = (
+    <>
+      {showType && <span className="opacity-70">{ENTITY_TYPE_LABELS[entity.type]}</span>}
+      <span className="font-medium">{formatEntityValue(entity)}</span>
+    </>
+  );
+
+  return onClick ? (
+    <button type="button" className={`${className} hover:opacity-80`} title={`"${entity.text}"`} onClick={onClick}>
+      {content}
+    </button>
+  ) : (
+    <span className={className} title={`"${entity.text}"`}>{content}</span>
+  );
+};
+
+interface CallEntitiesProps {
+  analysis: CallAnalysis;
+  fileName?: string;
+  onSelectSegment: (segmentId: number) => void;
+}
+
+// Everything named on the call, grouped by type; each chip jumps to its first mention
+export const CallEntities = ({ analysis, fileName, onSelectSegment }: CallEntitiesProps) => {
+  const entities = uniqueEntities(analysis.entities || []);
+
+  const downloadCsv = () => {
+    const blob = new Blob([entitiesToCsv(analysis)], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${(fileName || "call").replace(/\.[^.]+$/, "")}-entities.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center space-x-2">
+              <Tags className="h-5 w-5" />
+              <span>Mentioned on the Call</span>
+            </CardTitle>
+            <CardDescription>Products, prices, dates, order numbers, competitors and locations</CardDescription>
+          </div>
+          {entities.length > 0 && (
+            <Button variant="outline" size="sm" onClick={downloadCsv}>
+              <Download className="h-4 w-4 mr-2" />
+              Export CSV
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {entities.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nothing was named on this call</p>
+        ) : (
+          <dl className="space-y-3">
+            {ENTITY_TYPES.map(type => {
+              const ofType = entities.filter(entity => entity.type === type);
+              if (ofType.length === 0) return null;
+              return (
+                <div key={type} className="flex items-start gap-3">
+                  <dt className="w-28 shrink-0 text-sm text-muted-foreground">{ENTITY_TYPE_LABELS[type]}</dt>
+                  <dd className="flex flex-wrap gap-2">
+                    {ofType.map((entity, index) => (
+                      <EntityChip key={index} entity={entity} showType={false} onClick={() => onSelectSegment(entity.segmentId)} />
+                    ))}
+                  </dd>
+                </div>
+              );
+            })}
+          </dl>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -3,9 +3,21 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useState } from "react";
 import { Search, Clock, AlertTriangle, Lightbulb, FileAudio } from "lucide-react";
-import { TranscriptionData } from "@/types/transcription";
+import { TranscriptionData, TranscriptionStatus } from "@/types/transcription";
+import { getStatusLabel } from "@/lib/transcriptionJobs";
+import { CALL_TYPES, CALL_TYPE_LABELS, getEffectiveCallType } from "@/lib/callTypes";
+import { COMPLIANCE_STATUS_LABELS, getComplianceStatus } from "@/lib/compliance";
+import { matchesEntitySearch } from "@/lib/entities";
+import { getCallHeadline } from "@/lib/summaries";
+import { CallTypeBadge } from "./CallTypeBadge";
+
+const ALL_CALL_TYPES = "all";
+const ANY_COMPLIANCE = "all";
+// Calls analysed before their organization had compliance rules
+const NOT_CHECKED = "unchecked";
 
 interface CallHistoryProps {
   transcriptions: TranscriptionData[];
@@ -14,17 +26,24 @@ interface CallHistoryProps {
 
 export const CallHistory = ({ transcriptions, onSelectTranscription }: CallHistoryProps) => {
   const [searchTerm, setSearchTerm] = useState("");
+  const [callTypeFilter, setCallTypeFilter] = useState(ALL_CALL_TYPES);
+  const [complianceFilter, setComplianceFilter] = useState(ANY_COMPLIANCE);
 
   const filteredTranscriptions = transcriptions.filter(t => 
-    t.transcript.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    new Date(t.timestamp).toLocaleString().includes(searchTerm)
+    (t.transcript.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      new Date(t.timestamp).toLocaleString().includes(searchTerm) ||
+      matchesEntitySearch(t.analysis, searchTerm)) &&
+    (callTypeFilter === ALL_CALL_TYPES || getEffectiveCallType(t) === callTypeFilter) &&
+    (complianceFilter === ANY_COMPLIANCE || (getComplianceStatus(t) ?? NOT_CHECKED) === complianceFilter)
   );
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: TranscriptionStatus) => {
     switch (status) {
       case 'completed': return 'bg-green-500/10 text-green-700 border-green-200';
-      case 'processing': return 'bg-yellow-500/10 text-yellow-700 border-yellow-200';
-      case 'error': return 'bg-red-500/10 text-red-700 border-red-200';
+      case 'queued':
+      case 'transcribing':
+      case 'analyzing': return 'bg-yellow-500/10 text-yellow-700 border-yellow-200';
+      case 'failed': return 'bg-red-500/10 text-red-700 border-red-200';
       default: return 'bg-gray-500/10 text-gray-700 border-gray-200';
     }
   };
@@ -35,11 +54,6 @@ export const CallHistory = ({ transcriptions, onSelectTranscription }: CallHisto
     return `${mins}m ${secs}s`;
   };
 
-  const truncateText = (text: string, maxLength: number = 150) => {
-    if (text.length <= maxLength) return text;
-    return text.substring(0, maxLength) + "...";
-  };
-
   return (
     <div className="space-y-6">
       <Card>
@@ -50,14 +64,38 @@ export const CallHistory = ({ transcriptions, onSelectTranscription }: CallHisto
           </CardDescription>
           
           {/* Search */}
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
-            <Input
-              placeholder="Search transcriptions..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10"
-            />
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+              <Input
+                placeholder="Search transcripts, products, order numbers..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={callTypeFilter} onValueChange={setCallTypeFilter}>
+              <SelectTrigger className="w-44" aria-label="Filter by call type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_CALL_TYPES}>All call types</SelectItem>
+                {CALL_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{CALL_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={complianceFilter} onValueChange={setComplianceFilter}>
+              <SelectTrigger className="w-44" aria-label="Filter by compliance">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_COMPLIANCE}>Any compliance</SelectItem>
+                <SelectItem value="passed">{COMPLIANCE_STATUS_LABELS.passed}</SelectItem>
+                <SelectItem value="failed">{COMPLIANCE_STATUS_LABELS.failed}</SelectItem>
+                <SelectItem value={NOT_CHECKED}>Not checked</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
         </CardHeader>
         
@@ -71,7 +109,7 @@ export const CallHistory = ({ transcriptions, onSelectTranscription }: CallHisto
               <p className="text-muted-foreground">
                 {transcriptions.length === 0 
                   ? "Upload or record audio to get started with transcription"
-                  : "Try adjusting your search terms"
+                  : "Try adjusting your search terms or filters"
                 }
               </p>
             </div>
@@ -91,8 +129,14 @@ export const CallHistory = ({ transcriptions, onSelectTranscription }: CallHisto
                           <div className="space-y-1">
                             <div className="flex items-center gap-2">
                               <Badge className={getStatusColor(transcription.status)}>
-                                {transcription.status}
+                                {getStatusLabel(transcription.status)}
                               </Badge>
+                              <CallTypeBadge transcription={transcription} />
+                              {transcription.compliance && (
+                                <Badge variant={transcription.compliance.status === "passed" ? "outline" : "destructive"}>
+                                  {COMPLIANCE_STATUS_LABELS[transcription.compliance.status]}
+                                </Badge>
+                              )}
                               <span className="text-sm text-muted-foreground flex items-center gap-1">
                                 <Clock className="w-3 h-3" />
                                 {new Date(transcription.timestamp).toLocaleDateString()} at {new Date(transcription.timestamp).toLocaleTimeString()}
@@ -107,10 +151,10 @@ export const CallHistory = ({ transcriptions, onSelectTranscription }: CallHisto
                           </Button>
                         </div>
 
-                        {/* Transcript Preview */}
+                        {/* Headline, or a transcript preview for older calls */}
                         <div>
                           <p className="text-sm leading-relaxed">
-                            {truncateText(transcription.transcript || "No transcript available")}
+                            {getCallHeadline(transcription)}
                           </p>
                         </div>
 
@@ -0,0 +1,80 @@
+import { ReactNode } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CheckCircle, Copy } from "lucide-react";
+import { formatCrmNote } from "@/lib/summaries";
+import { CallSummaries as Summaries } from "@/types/transcription";
+
+interface CallSummariesProps {
+  summaries: Summaries;
+  onCopy: (text: string) => void;
+}
+
+interface SummarySectionProps {
+  title: string;
+  copyText: string;
+  onCopy: (text: string) => void;
+  children: ReactNode;
+}
+
+const SummarySection = ({ title, copyText, onCopy, children }: SummarySectionProps) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between">
+      <h4 className="text-sm font-medium text-muted-foreground">{title}</h4>
+      <Button variant="ghost" size="sm" onClick={() => onCopy(copyText)}>
+        <Copy className="h-4 w-4 mr-2" />
+        Copy
+      </Button>
+    </div>
+    {children}
+  </div>
+);
+
+// The call at three lengths: a headline for lists, a paragraph for managers
+// and a note laid out for pasting into a CRM
+export const CallSummaries = ({ summaries, onCopy }: CallSummariesProps) => {
+  const { headline, paragraph, crmNote } = summaries;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <CheckCircle className="h-5 w-5" />
+          <span>Call Summary</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <SummarySection title="Headline" copyText={headline} onCopy={onCopy}>
+          <p className="font-medium">{headline}</p>
+        </SummarySection>
+
+        <SummarySection title="Summary" copyText={paragraph} onCopy={onCopy}>
+          <p className="text-sm leading-relaxed">{paragraph}</p>
+        </SummarySection>
+
+        <SummarySection title="CRM note" copyText={formatCrmNote(crmNote)} onCopy={onCopy}>
+          <dl className="rounded-lg bg-muted/50 p-4 text-sm space-y-2">
+            <div>
+              <dt className="font-medium">Reason for call</dt>
+              <dd className="text-muted-foreground">{crmNote.reason}</dd>
+            </div>
+            <div>
+              <dt className="font-medium">Resolution</dt>
+              <dd className="text-muted-foreground">{crmNote.resolution}</dd>
+            </div>
+            <div>
+              <dt className="font-medium">Next steps</dt>
+              <dd className="text-muted-foreground">
+                {crmNote.nextSteps.length > 0 ? (
+                  <ul className="list-disc pl-5">
+                    {crmNote.nextSteps.map((step, index) => <li key={index}>{step}</li>)}
+                  </ul>
+                ) : "None"}
+              </dd>
+            </div>
+          </dl>
+        </SummarySection>
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,42 +1,88 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AudioUploader } from "./AudioUploader";
 import { TranscriptionResults } from "./TranscriptionResults";
 import { ComprehensiveCallAnalysis } from "./ComprehensiveCallAnalysis";
 import { CallHistory } from "./CallHistory";
+import { ObjectionFrequencyChart } from "./ObjectionFrequencyChart";
 import { TranscriptionData } from "@/types/transcription";
+import {
+  JOB_POLL_INTERVAL_MS,
+  fetchTranscriptionJob,
+  getRememberedJobIds,
+  isJobActive,
+  toTranscriptionData
+} from "@/lib/transcriptionJobs";
 
 export const CallTranscriptionDashboard = () => {
   const [transcriptions, setTranscriptions] = useState<TranscriptionData[]>([]);
   const [activeTranscription, setActiveTranscription] = useState<TranscriptionData | null>(null);
 
+  const updateTranscription = useCallback((id: string, updates: Partial<TranscriptionData>) => {
+    setTranscriptions(prev => 
+      prev.map(t => t.id === id ? { ...t, ...updates } : t)
+    );
+    setActiveTranscription(prev => prev?.id === id ? { ...prev, ...updates } : prev);
+  }, []);
+
+  // Restore previously submitted jobs so closing the tab doesn't lose them
+  useEffect(() => {
+    const jobIds = getRememberedJobIds();
+    if (jobIds.length === 0) return;
+
+    Promise.allSettled(jobIds.map(fetchTranscriptionJob)).then(results => {
+      const restored = results.flatMap(result =>
+        result.status === 'fulfilled' ? [toTranscriptionData(result.value)] : []
+      );
+
+      setTranscriptions(prev => [
+        ...prev,
+        ...restored.filter(job => !prev.some(t => t.id === job.id))
+      ]);
+    });
+  }, []);
+
+  const activeJobIds = transcriptions
+    .filter(t => isJobActive(t.status))
+    .map(t => t.id)
+    .join(',');
+
+  // Poll the status endpoint until every in-flight job has finished
+  useEffect(() => {
+    if (!activeJobIds) return;
+
+    const interval = setInterval(async () => {
+      for (const id of activeJobIds.split(',')) {
+        try {
+          const job = await fetchTranscriptionJob(id);
+          updateTranscription(id, toTranscriptionData(job));
+        } catch (error) {
+          console.error(`Failed to poll transcription ${id}:`, error);
+        }
+      }
+    }, JOB_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [activeJobIds, updateTranscription]);
+
   const handleNewTranscription = (data: Partial<TranscriptionData>) => {
     const newTranscription: TranscriptionData = {
-      id: Date.now().toString(),
+      id: data.id || Date.now().toString(),
       transcript: data.transcript || '',
       timestamp: new Date().toISOString(),
       anomalies: data.anomalies || [],
       suggestions: data.suggestions || [],
       duration: data.duration || 0,
-      status: data.status || 'processing',
-      analysis: data.analysis
+      status: data.status || 'queued',
+      analysis: data.analysis,
+      fileName: data.fileName
     };
     
     setTranscriptions(prev => [newTranscription, ...prev]);
     setActiveTranscription(newTranscription);
   };
 
-  const updateTranscription = (id: string, updates: Partial<TranscriptionData>) => {
-    setTranscriptions(prev => 
-      prev.map(t => t.id === id ? { ...t, ...updates } : t)
-    );
-    
-    if (activeTranscription?.id === id) {
-      setActiveTranscription(prev => prev ? { ...prev, ...updates } : null);
-    }
-  };
-
   return (
     <div className="space-y-6">
       <Tabs defaultValue="upload" className="w-full">
@@ -60,6 +106,7 @@ export const CallTranscriptionDashboard = () => {
         </TabsContent>
         
         <TabsContent value="history" className="space-y-6">
+          <ObjectionFrequencyChart transcriptions={transcriptions} />
           <CallHistory 
             transcriptions={transcriptions}
             onSelectTranscription={setActiveTranscription}
@@ -0,0 +1,27 @@
+import { Badge } from "@/components/ui/badge";
+import { CALL_TYPE_LABELS, getEffectiveCallType } from "@/lib/callTypes";
+import { TranscriptionData } from "@/types/transcription";
+
+interface CallTypeBadgeProps {
+  transcription: TranscriptionData;
+}
+
+export const CallTypeBadge = ({ transcription }: CallTypeBadgeProps) => {
+  const callType = getEffectiveCallType(transcription);
+  if (!callType) return null;
+
+  const detected = transcription.analysis?.callType;
+  const detail = transcription.callTypeOverride
+    ? "reviewed"
+    : detected && `${Math.round(detected.confidence * 100)}%`;
+
+  return (
+    <Badge
+      variant="outline"
+      title={transcription.callTypeOverride ? "Set by a reviewer" : "Detected by the call analysis"}
+    >
+      {CALL_TYPE_LABELS[callType]}
+      {detail && <span className="ml-1 text-muted-foreground font-normal">{detail}</span>}
+    </Badge>
+  );
+};
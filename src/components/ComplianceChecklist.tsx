@@ -0,0 +1,77 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CheckCircle, ShieldCheck, XCircle } from "lucide-react";
+import { COMPLIANCE_STATUS_LABELS, formatComplianceWindow } from "@/lib/compliance";
+import { formatTimestamp } from "@/lib/format";
+import { ComplianceCheck, ComplianceResult } from "@/types/transcription";
+
+interface ComplianceChecklistProps {
+  compliance: ComplianceResult;
+  onSelectSegment: (segmentId: number) => void;
+}
+
+const describeCheck = (check: ComplianceCheck) => {
+  const requirement = check.kind === "required" ? "Must be said" : "Must never be said";
+  return check.window ? `${requirement} ${formatComplianceWindow(check.window)}` : requirement;
+};
+
+// What a reader needs to know when there is no evidence to click through to
+const describeMissingEvidence = (check: ComplianceCheck) =>
+  check.kind === "required" ? "Not said" : "Not said, as required";
+
+export const ComplianceChecklist = ({ compliance, onSelectSegment }: ComplianceChecklistProps) => {
+  const failed = compliance.checks.filter(check => check.status === "failed").length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="h-5 w-5" />
+          <span>Compliance</span>
+          <Badge variant={compliance.status === "passed" ? "default" : "destructive"}>
+            {COMPLIANCE_STATUS_LABELS[compliance.status]}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          {failed === 0
+            ? `All ${compliance.checks.length} rules passed`
+            : `${failed} of ${compliance.checks.length} rules failed`}
+          {` · checked against rules v${compliance.version}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-3">
+          {compliance.checks.map(check => (
+            <li key={check.ruleId} className="flex items-start gap-3">
+              {check.status === "passed"
+                ? <CheckCircle className="h-4 w-4 mt-0.5 text-green-600 shrink-0" />
+                : <XCircle className="h-4 w-4 mt-0.5 text-red-600 shrink-0" />}
+              <div className="space-y-1">
+                <p className="text-sm font-medium">{check.name}</p>
+                <p className="text-xs text-muted-foreground">{describeCheck(check)}</p>
+                {check.evidence.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">{describeMissingEvidence(check)}</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {check.evidence.map(evidence => (
+                      <button
+                        key={evidence.segmentId}
+                        type="button"
+                        className="rounded border px-2 py-0.5 text-xs text-muted-foreground hover:border-primary hover:text-primary"
+                        title={evidence.inWindow ? undefined : "Said outside the required window"}
+                        onClick={() => onSelectSegment(evidence.segmentId)}
+                      >
+                        {formatTimestamp(evidence.start)} · "{evidence.phrase}"
+                        {!evidence.inWindow && (check.window?.anchor === "end" ? " (too early)" : " (too late)")}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { SPEAKER_ROLE_LABELS } from "@/lib/speakers";
+import { ComplianceRule, complianceRulesSchema } from "@/types/complianceSchema";
+import { SpeakerRole } from "@/types/transcription";
+
+interface ComplianceRulesEditorProps {
+  initial: ComplianceRule[];
+  saving: boolean;
+  readOnly: boolean;
+  onSave: (rules: ComplianceRule[]) => void;
+}
+
+const ANY_SPEAKER = "any";
+const NO_WINDOW = "none";
+
+// Phrases are edited one per line; the window is split into its anchor and
+// a free-text seconds field so a half-typed number is not rejected
+interface RuleRow {
+  id: string;
+  name: string;
+  kind: ComplianceRule["kind"];
+  phrases: string;
+  speakerRole: SpeakerRole | typeof ANY_SPEAKER;
+  windowAnchor: "start" | "end" | typeof NO_WINDOW;
+  windowSeconds: string;
+}
+
+const toRow = (rule: ComplianceRule): RuleRow => ({
+  id: rule.id,
+  name: rule.name,
+  kind: rule.kind,
+  phrases: rule.phrases.join("\n"),
+  speakerRole: rule.speakerRole || ANY_SPEAKER,
+  windowAnchor: rule.window?.anchor || NO_WINDOW,
+  windowSeconds: rule.window ? String(rule.window.seconds) : ""
+});
+
+const toRule = (row: RuleRow) => ({
+  id: row.id,
+  name: row.name,
+  kind: row.kind,
+  phrases: row.phrases.split("\n").map(phrase => phrase.trim()).filter(Boolean),
+  speakerRole: row.speakerRole === ANY_SPEAKER ? undefined : row.speakerRole,
+  window: row.windowAnchor === NO_WINDOW ? undefined : { anchor: row.windowAnchor, seconds: Number(row.windowSeconds) }
+});
+
+const createRow = (): RuleRow => ({
+  id: crypto.randomUUID(),
+  name: "",
+  kind: "required",
+  phrases: "",
+  speakerRole: "agent",
+  windowAnchor: NO_WINDOW,
+  windowSeconds: ""
+});
+
+export const ComplianceRulesEditor = ({ initial, saving, readOnly, onSave }: ComplianceRulesEditorProps) => {
+  const [rows, setRows] = useState<RuleRow[]>(initial.map(toRow));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateRow = (index: number, updates: Partial<RuleRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...updates } : row));
+  };
+
+  const handleSave = () => {
+    const result = complianceRulesSchema.safeParse(rows.map(toRule));
+    if (!result.success) {
+      setErrors(result.error.issues.map(issue =>
+        typeof issue.path[0] === "number" ? `Rule ${issue.path[0] + 1}: ${issue.message}` : issue.message
+      ));
+      return;
+    }
+
+    setErrors([]);
+    onSave(result.data);
+  };
+
+  return (
+    <div className="space-y-4">
+      {rows.length === 0 && (
+        <p className="text-center text-muted-foreground py-6">No rules yet</p>
+      )}
+      {rows.map((row, index) => (
+        <div key={row.id} className="rounded-lg border p-4 space-y-3">
+          <div className="flex items-end gap-3">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor={`rule-name-${row.id}`}>Rule</Label>
+              <Input
+                id={`rule-name-${row.id}`}
+                placeholder="Recording disclosure"
+                value={row.name}
+                disabled={readOnly}
+                onChange={(e) => updateRow(index, { name: e.target.value })}
+              />
+            </div>
+            <div className="w-40 space-y-1">
+              <Label>Type</Label>
+              <Select
+                value={row.kind}
+                disabled={readOnly}
+                onValueChange={(value) => updateRow(index, { kind: value as RuleRow["kind"] })}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="required">Must say</SelectItem>
+                  <SelectItem value="forbidden">Must never say</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="w-40 space-y-1">
+              <Label>Said by</Label>
+              <Select
+                value={row.speakerRole}
+                disabled={readOnly}
+                onValueChange={(value) => updateRow(index, { speakerRole: value as RuleRow["speakerRole"] })}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY_SPEAKER}>Anyone</SelectItem>
+                  {Object.entries(SPEAKER_ROLE_LABELS).map(([role, label]) => (
+                    <SelectItem key={role} value={role}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {!readOnly && (
+              <Button
+                variant="ghost"
+                size="icon"
+                title="Remove rule"
+                onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor={`rule-phrases-${row.id}`}>Phrase and allowed paraphrases, one per line</Label>
+            <Textarea
+              id={`rule-phrases-${row.id}`}
+              rows={3}
+              placeholder={"this call is being recorded\nthis call may be recorded"}
+              value={row.phrases}
+              disabled={readOnly}
+              onChange={(e) => updateRow(index, { phrases: e.target.value })}
+            />
+          </div>
+
+          <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">When</span>
+            <Select
+              value={row.windowAnchor}
+              disabled={readOnly}
+              onValueChange={(value) => updateRow(index, { windowAnchor: value as RuleRow["windowAnchor"] })}
+            >
+              <SelectTrigger className="w-44"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_WINDOW}>anywhere in the call</SelectItem>
+                <SelectItem value="start">within the first</SelectItem>
+                <SelectItem value="end">within the last</SelectItem>
+              </SelectContent>
+            </Select>
+            {row.windowAnchor !== NO_WINDOW && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  className="w-24"
+                  value={row.windowSeconds}
+                  disabled={readOnly}
+                  onChange={(e) => updateRow(index, { windowSeconds: e.target.value })}
+                />
+                <span className="text-muted-foreground">seconds</span>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {errors.map((error, index) => <li key={index}>{error}</li>)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!readOnly && (
+        <div className="flex justify-between gap-2">
+          <Button variant="outline" onClick={() => setRows(prev => [...prev, createRow()])}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add rule
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save rules"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
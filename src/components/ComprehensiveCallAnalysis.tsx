@@ -1,9 +1,12 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Separator } from '@/components/ui/separator';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { 
   Download, 
@@ -14,72 +17,110 @@ import {
   CheckCircle, 
   TrendingUp,
   User,
-  UserCheck,
   Clock,
   Star,
   ChevronDown,
-  ChevronUp
+  ChevronUp,
+  ShieldCheck
 } from 'lucide-react';
-import { TranscriptionData } from '@/types/transcription';
+import { PiiEntity, SentimentLabel, TranscriptionData, UnredactedTranscript } from '@/types/transcription';
+import { formatTimestamp } from '@/lib/format';
+import { CALL_TYPES, CALL_TYPE_LABELS, getEffectiveCallType, saveCallTypeOverride } from '@/lib/callTypes';
+import { SPEAKER_ROLE_LABELS, getAnomaliesForRole, getSpeaker } from '@/lib/speakers';
+import {
+  TranscriptView,
+  formatLanguageShares,
+  formatSegmentLanguages,
+  getLanguageName,
+  indexSegmentLanguages
+} from '@/lib/languages';
+import { fetchUnredactedTranscript } from '@/lib/redaction';
+import { computeConversationMetrics, TimedSegment } from '@/lib/conversationMetrics';
+import { ACTION_ITEM_OWNER_LABELS } from '@/lib/actionItems';
+import { formatCrmNote } from '@/lib/summaries';
+import { OBJECTION_CATEGORY_LABELS, OBJECTION_HANDLING_LABELS } from '@/lib/objections';
+import { ENTITY_TYPE_LABELS, formatEntityValue, indexEntitiesBySegment, uniqueEntities } from '@/lib/entities';
+import { formatSentimentScore, getCustomerSentimentDelta, hasSentiment, SENTIMENT_LABELS } from '@/lib/sentiment';
+import { CallType } from '@/types/rubricSchema';
+import { ScoreBreakdown } from './ScoreBreakdown';
+import { CallTypeBadge } from './CallTypeBadge';
+import { SpeakerBadge } from './SpeakerBadge';
+import { SpeakerAnomalies } from './SpeakerAnomalies';
+import { PiiText } from './PiiText';
+import { RedactedAudioControls } from './RedactedAudioControls';
+import { ConversationDynamics } from './ConversationDynamics';
+import { SentimentTimeline } from './SentimentTimeline';
+import { ComplianceChecklist } from './ComplianceChecklist';
+import { ActionItems } from './ActionItems';
+import { CallEntities, EntityChip } from './CallEntities';
+import { ObjectionHandling } from './ObjectionHandling';
+import { CallSummaries } from './CallSummaries';
+
+// Select value for "use the type the analysis detected"
+const DETECTED_CALL_TYPE = 'detected';
 
 interface ComprehensiveCallAnalysisProps {
   transcription: TranscriptionData;
   onUpdate: (updates: Partial<TranscriptionData>) => void;
 }
 
+const SENTIMENT_COLORS: Record<SentimentLabel, string> = {
+  positive: 'text-green-600',
+  neutral: 'text-muted-foreground',
+  negative: 'text-red-600',
+};
+
+// Calls analysed before metrics were stored get them computed on the fly
+const getConversationMetrics = (transcription: TranscriptionData) =>
+  transcription.conversationMetrics
+    || computeConversationMetrics((transcription.analysis?.transcript || []) as TimedSegment[], transcription.duration);
+
 export const ComprehensiveCallAnalysis: React.FC<ComprehensiveCallAnalysisProps> = ({ 
   transcription, 
   onUpdate 
 }) => {
   const { toast } = useToast();
+  const audioRef = useRef<HTMLAudioElement>(null);
 
-  // Dynamic role identification based on analysis
-  const identifyRoles = () => {
-    if (!transcription.analysis) return null;
-    
-    // Analyze the suggestions and anomalies to determine who is the agent
-    // Suggestions are typically for agents, and receiver positive behaviors often indicate agent skills
-    const receiverHasAgentSkills = transcription.analysis.anomalies.receiver.positive.some(positive => 
-      positive.toLowerCase().includes('professional') || 
-      positive.toLowerCase().includes('helpful') ||
-      positive.toLowerCase().includes('explained') ||
-      positive.toLowerCase().includes('guided') ||
-      positive.toLowerCase().includes('addressed')
-    );
-    
-    const callerHasAgentSkills = transcription.analysis.anomalies.caller.positive.some(positive => 
-      positive.toLowerCase().includes('professional') || 
-      positive.toLowerCase().includes('helpful') ||
-      positive.toLowerCase().includes('explained') ||
-      positive.toLowerCase().includes('guided') ||
-      positive.toLowerCase().includes('addressed')
-    );
-    
-    // If suggestions exist (they're for agents), and receiver shows agent skills, receiver is likely agent
-    if (transcription.suggestions.length > 0 && receiverHasAgentSkills && !callerHasAgentSkills) {
-      return { agentRole: 'Receiver', customerRole: 'Caller' };
-    }
-    
-    // If caller shows more agent skills, caller is likely agent
-    if (callerHasAgentSkills && !receiverHasAgentSkills) {
-      return { agentRole: 'Caller', customerRole: 'Receiver' };
-    }
-    
-    // Default fallback: assume receiver is agent (common in business calls)
-    return { agentRole: 'Receiver', customerRole: 'Caller' };
+  // Segment offsets come from speech-to-text, so they map straight onto the recording
+  const seekTo = (seconds: number) => {
+    if (!audioRef.current) return;
+    audioRef.current.currentTime = seconds;
+    audioRef.current.play().catch(() => undefined);
   };
 
-  const roles = identifyRoles();
+  const segmentRefs = useRef(new Map<number, HTMLDivElement>());
+  const [focusedSegmentId, setFocusedSegmentId] = useState<number | null>(null);
 
-  const getSpeakerLabel = (speaker: 'Caller' | 'Receiver') => {
-    if (!roles) return speaker;
-    return speaker === roles.agentRole ? 'Agent' : 'Customer';
+  // Scrolls the transcript to a segment picked elsewhere in the report and plays from there
+  const jumpToSegment = (segmentId: number) => {
+    const segment = transcription.analysis?.transcript.find(entry => entry.id === segmentId);
+    if (!segment) return;
+    segmentRefs.current.get(segmentId)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setFocusedSegmentId(segmentId);
+    seekTo(segment.start);
   };
 
   const [showDetailedAnalysis, setShowDetailedAnalysis] = useState(false);
-  const getSpeakerVariant = (speaker: 'Caller' | 'Receiver') => {
-    if (!roles) return 'outline';
-    return speaker === roles.agentRole ? 'secondary' : 'outline';
+  const [transcriptView, setTranscriptView] = useState<TranscriptView>('original');
+  const [unredacted, setUnredacted] = useState<UnredactedTranscript | null>(null);
+  const [showUnredacted, setShowUnredacted] = useState(false);
+
+  // The original text is only fetched on request, and the server checks access again
+  const toggleUnredacted = async (checked: boolean) => {
+    if (checked && !unredacted) {
+      try {
+        setUnredacted(await fetchUnredactedTranscript(transcription.id));
+      } catch (error) {
+        toast({
+          title: "Could not load personal data",
+          description: error instanceof Error ? error.message : "An unexpected error occurred",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    setShowUnredacted(checked);
   };
 
   const copyToClipboard = async (text: string) => {
@@ -102,6 +143,10 @@ export const ComprehensiveCallAnalysis: React.FC<ComprehensiveCallAnalysisProps>
     if (!transcription.analysis) return;
 
     const analysis = transcription.analysis;
+    const conversationMetrics = getConversationMetrics(transcription);
+    const customerSentiment = getCustomerSentimentDelta(analysis);
+    const callType = getEffectiveCallType(transcription);
+    const segmentLanguages = indexSegmentLanguages(transcription.segmentLanguages);
     const reportContent = `
 COMPREHENSIVE CALL ANALYSIS REPORT
 Generated on: ${new Date().toLocaleString()}
@@ -111,45 +156,90 @@ Duration: ${Math.floor(transcription.duration / 60)}m ${transcription.duration %
 CALL OBJECTIVE
 =================================
 ${analysis.objective}
+${callType ? `Call type: ${CALL_TYPE_LABELS[callType]}` : ''}
 
 =================================
 SPEAKER-AWARE TRANSCRIPT
 =================================
-${analysis.transcript.map(segment => 
-  `[${segment.timestamp}] ${segment.speaker}: ${segment.text}`
-).join('\n')}
+${transcription.glossaryVersion ? `Glossary: v${transcription.glossaryVersion}
+` : ''}${transcription.languageMix ? `Languages: ${formatLanguageShares(transcription.languageMix.languages)}
+Code-mixing: ${Math.round(transcription.languageMix.codeMixingRatio * 100)}%
+
+` : ''}${analysis.transcript.map(segment => {
+  const translation = segmentLanguages.get(segment.id)?.translation;
+  const sentiment = segment.sentiment ? ` (${formatSentimentScore(segment.sentiment.score)})` : '';
+  return `[${formatTimestamp(segment.start)}] ${getSpeaker(analysis, segment.speakerId)?.label || segment.speakerId}${sentiment}: ${segment.text}${translation ? `
+    (English) ${translation}` : ''}`;
+}).join('\n')}
 
 =================================
 DETECTED ANOMALIES
 =================================
+${analysis.speakers.map(speaker => {
+  const anomalies = analysis.anomalies.find(entry => entry.speakerId === speaker.id);
+  return `
+${speaker.label.toUpperCase()} (${SPEAKER_ROLE_LABELS[speaker.role]}) POSITIVE BEHAVIORS:
+${(anomalies?.positive || []).map(anomaly => `• ${anomaly}`).join('\n')}
+
+${speaker.label.toUpperCase()} (${SPEAKER_ROLE_LABELS[speaker.role]}) NEGATIVE BEHAVIORS:
+${(anomalies?.negative || []).map(anomaly => `• ${anomaly}`).join('\n')}
+`;
+}).join('')}
+${transcription.compliance ? `=================================
+COMPLIANCE (rules v${transcription.compliance.version})
+=================================
+${transcription.compliance.checks.map(check => `${check.status === 'passed' ? '✓' : '✗'} ${check.name}${check.evidence.length ? ` (${check.evidence.map(evidence => formatTimestamp(evidence.start)).join(', ')})` : ''}`).join('\n')}
 
-CALLER POSITIVE BEHAVIORS:
-${analysis.anomalies.caller.positive.map(anomaly => `• ${anomaly}`).join('\n')}
-
-CALLER NEGATIVE BEHAVIORS:
-${analysis.anomalies.caller.negative.map(anomaly => `• ${anomaly}`).join('\n')}
+` : ''}=================================
+CONVERSATION DYNAMICS
+=================================
+Turns: ${conversationMetrics.turnCount}
+${customerSentiment ? `Customer sentiment: ${formatSentimentScore(customerSentiment.start)} at the start, ${formatSentimentScore(customerSentiment.end)} at the end (${formatSentimentScore(customerSentiment.delta)})
+` : ''}Interruptions: ${conversationMetrics.interruptionCount} (${conversationMetrics.overlapCount} overlaps)
+Dead air: ${Math.round(conversationMetrics.deadAirSeconds)}s across ${conversationMetrics.silences.length} silences
+${conversationMetrics.speakers.map(speaker =>
+  `${getSpeaker(analysis, speaker.speakerId)?.label || speaker.speakerId}: ${Math.round(speaker.talkSeconds)}s talk (${Math.round(speaker.talkShare * 100)}%), ${speaker.turns} turns, ${speaker.wordsPerMinute ?? '-'} wpm`
+).join('\n')}
 
-RECEIVER POSITIVE BEHAVIORS:
-${analysis.anomalies.receiver.positive.map(anomaly => `• ${anomaly}`).join('\n')}
+${analysis.objections?.length ? `=================================
+OBJECTIONS
+=================================
+${analysis.objections.map(objection => `• [${OBJECTION_CATEGORY_LABELS[objection.category]}] ${objection.summary} - ${OBJECTION_HANDLING_LABELS[objection.handling]}: ${objection.assessment}`).join('\n')}
 
-RECEIVER NEGATIVE BEHAVIORS:
-${analysis.anomalies.receiver.negative.map(anomaly => `• ${anomaly}`).join('\n')}
+` : ''}${analysis.entities?.length ? `=================================
+MENTIONED ON THE CALL
+=================================
+${uniqueEntities(analysis.entities).map(entity => `${ENTITY_TYPE_LABELS[entity.type]}: ${formatEntityValue(entity)}`).join('\n')}
 
+` : ''}${analysis.actionItems?.length ? `=================================
+ACTION ITEMS
 =================================
+${analysis.actionItems.map(item => `• [${ACTION_ITEM_OWNER_LABELS[item.owner]}] ${item.description}${item.dueDate || item.dueText ? ` (due ${item.dueDate || item.dueText})` : ''}`).join('\n')}
+
+` : ''}=================================
 CALL CONCLUSION
 =================================
-${analysis.conclusion}
+${analysis.summaries ? `${analysis.summaries.headline}
+
+${analysis.summaries.paragraph}
+
+CRM NOTE
+${formatCrmNote(analysis.summaries.crmNote)}` : analysis.conclusion}
 
 =================================
-SUGGESTIONS FOR CALLER
+SUGGESTIONS FOR AGENT
 =================================
 ${analysis.suggestions.map(suggestion => `• ${suggestion}`).join('\n')}
 
 =================================
 CALL QUALITY SCORE
 =================================
-Score: ${analysis.score}/10
+Score: ${analysis.score}/10${transcription.rubric ? `
+Rubric: ${transcription.rubric.name} (v${transcription.rubric.version})` : ''}
 Reasoning: ${analysis.scoreReasoning}
+${(analysis.scoreBreakdown || []).map(item =>
+  `• ${item.category} / ${item.criterion}: ${item.awardedPoints}/${item.maxPoints} - ${item.justification}`
+).join('\n')}
 
 =================================
 Raw Transcript:
@@ -178,15 +268,26 @@ ${transcription.transcript}
     return "text-red-600 dark:text-red-400";
   };
 
-  const getObjectiveIcon = (objective: string) => {
-    const lowerObjective = objective.toLowerCase();
-    if (lowerObjective.includes('sales') || lowerObjective.includes('demo')) 
-      return <TrendingUp className="h-5 w-5" />;
-    if (lowerObjective.includes('support') || lowerObjective.includes('complaint')) 
-      return <CheckCircle className="h-5 w-5" />;
+  const getCallTypeIcon = (callType: CallType | null) => {
+    if (callType === 'sales') return <TrendingUp className="h-5 w-5" />;
+    if (callType === 'support' || callType === 'complaint') return <CheckCircle className="h-5 w-5" />;
     return <Target className="h-5 w-5" />;
   };
 
+  const handleCallTypeOverride = async (value: string) => {
+    const callTypeOverride = value === DETECTED_CALL_TYPE ? null : value as CallType;
+    try {
+      await saveCallTypeOverride(transcription.id, callTypeOverride);
+      onUpdate({ callTypeOverride: callTypeOverride || undefined });
+    } catch (error) {
+      toast({
+        title: "Failed to update call type",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
   if (!transcription.analysis) {
     return (
       <Card>
@@ -199,6 +300,19 @@ ${transcription.transcript}
   }
 
   const analysis = transcription.analysis;
+  const agentAnomalies = getAnomaliesForRole(analysis, 'agent');
+  const segmentLanguages = indexSegmentLanguages(transcription.segmentLanguages);
+  const hasTranslations = transcription.segmentLanguages?.some(tag => tag.translation) ?? false;
+  // Untranslated segments were already in English, so every view falls back to the original
+  const view = hasTranslations ? transcriptView : 'original';
+  const piiEntities = transcription.piiEntities || [];
+  const entitiesBySegment = piiEntities.reduce((groups, entity) => {
+    groups.set(entity.segmentId, [...(groups.get(entity.segmentId) || []), entity]);
+    return groups;
+  }, new Map<number, PiiEntity[]>());
+  const conversationMetrics = getConversationMetrics(transcription);
+  const namedEntitiesBySegment = indexEntitiesBySegment(analysis.entities || []);
+  const unredactedSegments = new Map((showUnredacted && unredacted?.segments || []).map(segment => [segment.id, segment]));
 
   return (
     <div className="space-y-6">
@@ -207,15 +321,34 @@ ${transcription.transcript}
         <CardHeader className="pb-4">
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-3">
-              {getObjectiveIcon(analysis.objective)}
+              {getCallTypeIcon(getEffectiveCallType(transcription))}
               <div>
-                <CardTitle className="text-xl">Call Analysis Report</CardTitle>
+                <div className="flex items-center gap-2">
+                  <CardTitle className="text-xl">Call Analysis Report</CardTitle>
+                  <CallTypeBadge transcription={transcription} />
+                </div>
                 <p className="text-sm text-muted-foreground">
                   {new Date(transcription.timestamp).toLocaleString()} • {Math.floor(transcription.duration / 60)}m {transcription.duration % 60}s
                 </p>
               </div>
             </div>
             <div className="flex space-x-2">
+              <Select
+                value={transcription.callTypeOverride || DETECTED_CALL_TYPE}
+                onValueChange={handleCallTypeOverride}
+              >
+                <SelectTrigger className="h-9 w-44" aria-label="Call type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DETECTED_CALL_TYPE}>
+                    Detected{analysis.callType ? ` (${CALL_TYPE_LABELS[analysis.callType.type]})` : ''}
+                  </SelectItem>
+                  {CALL_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{CALL_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
               <Button
                 variant="outline"
                 size="sm"
@@ -249,52 +382,163 @@ ${transcription.transcript}
       {/* Speaker-Aware Transcript */}
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center space-x-2">
-            <MessageSquare className="h-5 w-5" />
-            <span>Speaker-Aware Transcript</span>
-          </CardTitle>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="flex items-center space-x-2">
+              <MessageSquare className="h-5 w-5" />
+              <span>Speaker-Aware Transcript</span>
+            </CardTitle>
+            {hasTranslations && (
+              <ToggleGroup
+                type="single"
+                size="sm"
+                variant="outline"
+                value={transcriptView}
+                onValueChange={value => value && setTranscriptView(value as TranscriptView)}
+              >
+                <ToggleGroupItem value="original">Original</ToggleGroupItem>
+                <ToggleGroupItem value="translation">English</ToggleGroupItem>
+                <ToggleGroupItem value="both">Both</ToggleGroupItem>
+              </ToggleGroup>
+            )}
+          </div>
+          {transcription.languageMix && (
+            <p className="text-sm text-muted-foreground">
+              Languages: {formatLanguageShares(transcription.languageMix.languages)}
+              {transcription.languageMix.codeMixingRatio > 0 &&
+                ` · Code-mixing ${Math.round(transcription.languageMix.codeMixingRatio * 100)}%`}
+            </p>
+          )}
+          {transcription.glossaryVersion && (
+            <p className="text-sm text-muted-foreground">
+              Names and terms normalized with glossary v{transcription.glossaryVersion}
+            </p>
+          )}
+          {piiEntities.length > 0 && (
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                <ShieldCheck className="h-4 w-4" />
+                {piiEntities.length} personal data value{piiEntities.length === 1 ? '' : 's'} redacted
+              </p>
+              {transcription.canViewUnredacted && (
+                <div className="flex items-center gap-2">
+                  <Switch id="show-unredacted" checked={showUnredacted} onCheckedChange={toggleUnredacted} />
+                  <Label htmlFor="show-unredacted" className="text-sm">Show personal data</Label>
+                </div>
+              )}
+            </div>
+          )}
+          {transcription.agentSide && (
+            <p className="text-sm text-muted-foreground">
+              Declared at upload: the agent {transcription.agentSide === 'caller' ? 'placed' : 'answered'} this call
+            </p>
+          )}
         </CardHeader>
         <CardContent>
           <ScrollArea className="h-96 w-full">
             <div className="space-y-3">
-              {analysis.transcript.map((segment, index) => (
-                <div key={index} className="flex items-start space-x-3">
-                  <div className="flex items-center space-x-2 min-w-[120px]">
-                    {getSpeakerLabel(segment.speaker) === 'Agent' ? (
-                      <UserCheck className="h-4 w-4 text-green-500" />
-                    ) : (
-                      <User className="h-4 w-4 text-blue-500" />
-                    )}
-                    <Badge variant={getSpeakerVariant(segment.speaker)}>
-                      {getSpeakerLabel(segment.speaker)}
-                    </Badge>
-                  </div>
-                  <div className="flex-1">
-                    <div className="flex items-center space-x-2 mb-1">
-                      <Clock className="h-3 w-3 text-muted-foreground" />
-                      <span className="text-xs text-muted-foreground">{segment.timestamp}</span>
+              {analysis.transcript.map((segment, index) => {
+                const languages = segmentLanguages.get(segment.id);
+                const translation = languages?.translation;
+                const original = unredactedSegments.get(segment.id);
+                const originalText = original
+                  ? <PiiText text={original.text} entities={entitiesBySegment.get(segment.id) || []} />
+                  : <PiiText text={segment.text} />;
+
+                return (
+                  <div
+                    key={index}
+                    ref={element => {
+                      if (element) segmentRefs.current.set(segment.id, element);
+                      else segmentRefs.current.delete(segment.id);
+                    }}
+                    className={`flex items-start space-x-3 rounded-md transition-colors ${segment.id === focusedSegmentId ? 'bg-primary/10' : ''}`}
+                  >
+                    <div className="min-w-[160px]">
+                      <SpeakerBadge speaker={getSpeaker(analysis, segment.speakerId)} />
+                    </div>
+                    <div className="flex-1">
+                      <div className="flex items-center space-x-2 mb-1">
+                        <Clock className="h-3 w-3 text-muted-foreground" />
+                        {transcription.audioUrl ? (
+                          <button
+                            type="button"
+                            className="text-xs text-muted-foreground hover:text-primary hover:underline"
+                            onClick={() => seekTo(segment.start)}
+                          >
+                            {formatTimestamp(segment.start)}
+                          </button>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">{formatTimestamp(segment.start)}</span>
+                        )}
+                        {languages && (
+                          <Badge
+                            variant="outline"
+                            className="px-1.5 py-0 text-[10px] font-normal"
+                            title={languages.languages.map(language => getLanguageName(language.code)).join(', ')}
+                          >
+                            {formatSegmentLanguages(languages)}
+                          </Badge>
+                        )}
+                        {segment.sentiment && (
+                          <span
+                            className={`text-[10px] ${SENTIMENT_COLORS[segment.sentiment.label]}`}
+                            title={`Sentiment ${formatSentimentScore(segment.sentiment.score)}`}
+                          >
+                            {SENTIMENT_LABELS[segment.sentiment.label]}
+                          </span>
+                        )}
+                      </div>
+                      {view === 'both' ? (
+                        <div className="grid grid-cols-2 gap-4">
+                          <p className="text-sm">{originalText}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {translation ? <PiiText text={translation} /> : originalText}
+                          </p>
+                        </div>
+                      ) : (
+                        <p className="text-sm">
+                          {view === 'translation' && translation ? <PiiText text={translation} /> : originalText}
+                        </p>
+                      )}
+                      {namedEntitiesBySegment.has(segment.id) && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {namedEntitiesBySegment.get(segment.id)!.map((entity, entityIndex) => (
+                            <EntityChip key={entityIndex} entity={entity} />
+                          ))}
+                        </div>
+                      )}
                     </div>
-                    <p className="text-sm">{segment.text}</p>
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           </ScrollArea>
         </CardContent>
       </Card>
 
       {/* Audio Player */}
+      {!transcription.audioUrl && piiEntities.length > 0 && (
+        <Card>
+          <CardContent className="py-4">
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4" />
+              This recording contains personal data and can be played once a redacted copy has been created.
+            </p>
+          </CardContent>
+        </Card>
+      )}
       {transcription.audioUrl && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
               <User className="h-5 w-5" />
               <span>Audio Recording</span>
+              {transcription.audioRedacted && <Badge variant="secondary">Redacted</Badge>}
             </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
-              <audio controls className="w-full">
+              <audio ref={audioRef} controls className="w-full">
                 <source src={transcription.audioUrl} type="audio/mpeg" />
                 <source src={transcription.audioUrl} type="audio/wav" />
                 Your browser does not support the audio element.
@@ -316,124 +560,65 @@ ${transcription.transcript}
                   Download Audio
                 </Button>
               </div>
+              {transcription.canViewUnredacted && (
+                <RedactedAudioControls transcription={transcription} onUpdate={onUpdate} />
+              )}
             </div>
           </CardContent>
         </Card>
       )}
 
-      {/* Caller and Receiver Analysis */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-        {/* Caller Analysis */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center space-x-2">
-              <User className="h-5 w-5 text-blue-500" />
-              <span>Customer Analysis</span>
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div>
-              <h4 className="font-medium text-green-600 mb-2 flex items-center">
-                <CheckCircle className="h-4 w-4 mr-2" />
-                Positive Behaviors
-              </h4>
-              {analysis.anomalies.caller.positive.length > 0 ? (
-                <ul className="space-y-2">
-                  {analysis.anomalies.caller.positive.map((positive, index) => (
-                    <li key={index} className="flex items-start space-x-2">
-                      <div className="w-2 h-2 bg-green-500 rounded-full mt-2 flex-shrink-0" />
-                      <span className="text-sm">{positive}</span>
-                    </li>
-                  ))}
-                </ul>
-              ) : (
-                <p className="text-sm text-muted-foreground">No positive behaviors identified</p>
-              )}
-            </div>
-            <Separator />
-            <div>
-              <h4 className="font-medium text-red-600 mb-2 flex items-center">
-                <AlertTriangle className="h-4 w-4 mr-2" />
-                Areas for Improvement
-              </h4>
-              {analysis.anomalies.caller.negative.length > 0 ? (
-                <ul className="space-y-2">
-                  {analysis.anomalies.caller.negative.map((negative, index) => (
-                    <li key={index} className="flex items-start space-x-2">
-                      <div className="w-2 h-2 bg-red-500 rounded-full mt-2 flex-shrink-0" />
-                      <span className="text-sm">{negative}</span>
-                    </li>
-                  ))}
-                </ul>
-              ) : (
-                <p className="text-sm text-muted-foreground">No issues identified</p>
-              )}
-            </div>
-          </CardContent>
-        </Card>
+      {/* Conversation Dynamics */}
+      <ConversationDynamics
+        metrics={conversationMetrics}
+        analysis={analysis}
+        onSeek={transcription.audioUrl ? seekTo : undefined}
+      />
+
+      {/* Objection Handling */}
+      {analysis.objections && (
+        <ObjectionHandling analysis={analysis} onSelectSegment={jumpToSegment} />
+      )}
+
+      {/* Named Entities */}
+      {analysis.entities && (
+        <CallEntities analysis={analysis} fileName={transcription.fileName} onSelectSegment={jumpToSegment} />
+      )}
+
+      {/* Action Items */}
+      {analysis.actionItems && (
+        <ActionItems transcriptionId={transcription.id} onSelectSegment={jumpToSegment} />
+      )}
+
+      {/* Compliance */}
+      {transcription.compliance && (
+        <ComplianceChecklist compliance={transcription.compliance} onSelectSegment={jumpToSegment} />
+      )}
+
+      {/* Sentiment Timeline */}
+      {hasSentiment(analysis) && (
+        <SentimentTimeline analysis={analysis} onSelectSegment={jumpToSegment} />
+      )}
+
+      {/* Per-speaker Analysis */}
+      <SpeakerAnomalies analysis={analysis} />
 
-        {/* Receiver Analysis */}
+      {/* Call Summary */}
+      {analysis.summaries ? (
+        <CallSummaries summaries={analysis.summaries} onCopy={copyToClipboard} />
+      ) : (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
-              <UserCheck className="h-5 w-5 text-green-500" />
-              <span>Agent Analysis</span>
+              <CheckCircle className="h-5 w-5" />
+              <span>Call Summary</span>
             </CardTitle>
           </CardHeader>
-          <CardContent className="space-y-4">
-            <div>
-              <h4 className="font-medium text-green-600 mb-2 flex items-center">
-                <CheckCircle className="h-4 w-4 mr-2" />
-                Positive Behaviors
-              </h4>
-              {analysis.anomalies.receiver.positive.length > 0 ? (
-                <ul className="space-y-2">
-                  {analysis.anomalies.receiver.positive.map((positive, index) => (
-                    <li key={index} className="flex items-start space-x-2">
-                      <div className="w-2 h-2 bg-green-500 rounded-full mt-2 flex-shrink-0" />
-                      <span className="text-sm">{positive}</span>
-                    </li>
-                  ))}
-                </ul>
-              ) : (
-                <p className="text-sm text-muted-foreground">No positive behaviors identified</p>
-              )}
-            </div>
-            <Separator />
-            <div>
-              <h4 className="font-medium text-red-600 mb-2 flex items-center">
-                <AlertTriangle className="h-4 w-4 mr-2" />
-                Areas for Improvement
-              </h4>
-              {analysis.anomalies.receiver.negative.length > 0 ? (
-                <ul className="space-y-2">
-                  {analysis.anomalies.receiver.negative.map((negative, index) => (
-                    <li key={index} className="flex items-start space-x-2">
-                      <div className="w-2 h-2 bg-red-500 rounded-full mt-2 flex-shrink-0" />
-                      <span className="text-sm">{negative}</span>
-                    </li>
-                  ))}
-                </ul>
-              ) : (
-                <p className="text-sm text-muted-foreground">No issues identified</p>
-              )}
-            </div>
+          <CardContent>
+            <p className="text-sm leading-relaxed">{analysis.conclusion}</p>
           </CardContent>
         </Card>
-      </div>
-
-      {/* Call Summary */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center space-x-2">
-            <CheckCircle className="h-5 w-5" />
-            <span>Call Summary</span>
-          </CardTitle>
-        </CardHeader>
-        <CardContent>
-          <p className="text-sm leading-relaxed">{analysis.conclusion}</p>
-        </CardContent>
-      </Card>
+      )}
 
       {/* Enhanced Call Quality Score */}
       <Card>
@@ -452,6 +637,11 @@ ${transcription.transcript}
               <Badge variant={analysis.score >= 8 ? "default" : analysis.score >= 6 ? "secondary" : "destructive"}>
                 {analysis.score >= 8 ? "Excellent" : analysis.score >= 6 ? "Good" : "Needs Improvement"}
               </Badge>
+              {transcription.rubric && (
+                <span className="text-sm text-muted-foreground">
+                  Scored with {transcription.rubric.name} v{transcription.rubric.version}
+                </span>
+              )}
             </div>
             <Button
               variant="outline"
@@ -480,15 +670,13 @@ ${transcription.transcript}
                   Detailed Score Analysis
                 </h5>
                 <div className="space-y-3">
-                  <div className="text-sm leading-relaxed text-muted-foreground">
-                    {analysis.scoreReasoning.split('.').map((sentence, index) => (
-                      sentence.trim() && (
-                        <p key={index} className="mb-2">
-                          {sentence.trim()}.
-                        </p>
-                      )
-                    ))}
-                  </div>
+                  <p className="text-sm leading-relaxed text-muted-foreground">
+                    {analysis.scoreReasoning}
+                  </p>
+                  {/* Analyses stored before per-criterion scoring only have the summary */}
+                  {analysis.scoreBreakdown?.length > 0 && (
+                    <ScoreBreakdown items={analysis.scoreBreakdown} />
+                  )}
                 </div>
               </div>
 
@@ -497,17 +685,13 @@ ${transcription.transcript}
                 <div className="bg-blue-50 dark:bg-blue-950/20 rounded-lg p-3">
                   <h6 className="font-medium text-sm text-blue-700 dark:text-blue-300 mb-2">Key Strengths</h6>
                   <ul className="text-xs text-blue-600 dark:text-blue-400 space-y-1">
-                    {(roles?.agentRole === 'Receiver' ? 
-                      analysis.anomalies.receiver.positive : 
-                      analysis.anomalies.caller.positive).slice(0, 3).map((positive, index) => (
+                    {agentAnomalies.positive.slice(0, 3).map((positive, index) => (
                       <li key={index} className="flex items-start">
                         <CheckCircle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
                         {positive}
                       </li>
                     ))}
-                    {(roles?.agentRole === 'Receiver' ? 
-                      analysis.anomalies.receiver.positive : 
-                      analysis.anomalies.caller.positive).length === 0 && (
+                    {agentAnomalies.positive.length === 0 && (
                       <li className="text-muted-foreground">No specific strengths identified</li>
                     )}
                   </ul>
@@ -516,17 +700,13 @@ ${transcription.transcript}
                 <div className="bg-orange-50 dark:bg-orange-950/20 rounded-lg p-3">
                   <h6 className="font-medium text-sm text-orange-700 dark:text-orange-300 mb-2">Areas for Improvement</h6>
                   <ul className="text-xs text-orange-600 dark:text-orange-400 space-y-1">
-                    {(roles?.agentRole === 'Receiver' ? 
-                      analysis.anomalies.receiver.negative : 
-                      analysis.anomalies.caller.negative).slice(0, 3).map((negative, index) => (
+                    {agentAnomalies.negative.slice(0, 3).map((negative, index) => (
                       <li key={index} className="flex items-start">
                         <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
                         {negative}
                       </li>
                     ))}
-                    {(roles?.agentRole === 'Receiver' ? 
-                      analysis.anomalies.receiver.negative : 
-                      analysis.anomalies.caller.negative).length === 0 && (
+                    {agentAnomalies.negative.length === 0 && (
                       <li className="text-muted-foreground">No specific issues identified</li>
                     )}
                   </ul>
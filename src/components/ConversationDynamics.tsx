@@ -0,0 +1,137 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Activity } from "lucide-react";
+import { ConversationMetrics } from "@/lib/conversationMetrics";
+import { formatTimestamp } from "@/lib/format";
+import { getSpeaker } from "@/lib/speakers";
+import { CallAnalysis } from "@/types/transcription";
+import { SpeakerBadge } from "./SpeakerBadge";
+
+interface ConversationDynamicsProps {
+  metrics: ConversationMetrics;
+  analysis: CallAnalysis;
+  onSeek?: (seconds: number) => void;
+}
+
+// Colours for each speaker's share of the talk-time bar, in speaker order
+const SHARE_COLORS = ["bg-primary", "bg-blue-400", "bg-amber-400", "bg-emerald-400", "bg-rose-400"];
+
+const formatSeconds = (seconds: number) =>
+  seconds < 60 ? `${Math.round(seconds)}s` : formatTimestamp(seconds);
+
+interface StatProps {
+  label: string;
+  value: string;
+  detail?: string;
+  onClick?: () => void;
+}
+
+const Stat = ({ label, value, detail, onClick }: StatProps) => (
+  <div className="rounded-lg border p-3">
+    <p className="text-xs text-muted-foreground">{label}</p>
+    <p className="text-xl font-semibold">{value}</p>
+    {detail && (
+      onClick ? (
+        <button type="button" className="text-xs text-muted-foreground hover:text-primary hover:underline" onClick={onClick}>
+          {detail}
+        </button>
+      ) : (
+        <p className="text-xs text-muted-foreground">{detail}</p>
+      )
+    )}
+  </div>
+);
+
+export const ConversationDynamics = ({ metrics, analysis, onSeek }: ConversationDynamicsProps) => {
+  const speakerLabel = (speakerId: string) => getSpeaker(analysis, speakerId)?.label || speakerId;
+  const monologue = metrics.longestMonologue;
+  const longestSilence = metrics.silences.find(silence => silence.durationSeconds === metrics.longestSilenceSeconds);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Activity className="h-5 w-5" />
+          <span>Conversation Dynamics</span>
+        </CardTitle>
+        <CardDescription>Measured from the transcript timestamps, not estimated by the analysis</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex h-3 w-full overflow-hidden rounded-full bg-muted">
+            {metrics.speakers.map((speaker, index) => (
+              <div
+                key={speaker.speakerId}
+                className={SHARE_COLORS[index % SHARE_COLORS.length]}
+                style={{ width: `${speaker.talkShare * 100}%` }}
+                title={`${speakerLabel(speaker.speakerId)}: ${Math.round(speaker.talkShare * 100)}%`}
+              />
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+            {metrics.speakers.map((speaker, index) => (
+              <span key={speaker.speakerId} className="flex items-center gap-1">
+                <span className={`h-2 w-2 rounded-full ${SHARE_COLORS[index % SHARE_COLORS.length]}`} />
+                {speakerLabel(speaker.speakerId)} {Math.round(speaker.talkShare * 100)}%
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+          <Stat label="Turns" value={String(metrics.turnCount)} />
+          <Stat
+            label="Longest monologue"
+            value={monologue ? formatSeconds(monologue.durationSeconds) : "—"}
+            detail={monologue ? `${speakerLabel(monologue.speakerId)} at ${formatTimestamp(monologue.start)}` : undefined}
+            onClick={monologue && onSeek ? () => onSeek(monologue.start) : undefined}
+          />
+          <Stat
+            label="Interruptions"
+            value={String(metrics.interruptionCount)}
+            detail={`${metrics.overlapCount} overlap${metrics.overlapCount === 1 ? "" : "s"} in total`}
+          />
+          <Stat
+            label="Dead air"
+            value={formatSeconds(metrics.deadAirSeconds)}
+            detail={longestSilence
+              ? `${metrics.silences.length} silence${metrics.silences.length === 1 ? "" : "s"}, longest at ${formatTimestamp(longestSilence.start)}`
+              : "No silences"}
+            onClick={longestSilence && onSeek ? () => onSeek(longestSilence.start) : undefined}
+          />
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Speaker</TableHead>
+              <TableHead className="text-right">Talk time</TableHead>
+              <TableHead className="text-right">Talk/listen</TableHead>
+              <TableHead className="text-right">Turns</TableHead>
+              <TableHead className="text-right">Longest turn</TableHead>
+              <TableHead className="text-right">Words/min</TableHead>
+              <TableHead className="text-right">Interruptions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {metrics.speakers.map(speaker => (
+              <TableRow key={speaker.speakerId}>
+                <TableCell>
+                  <SpeakerBadge speaker={getSpeaker(analysis, speaker.speakerId)} />
+                </TableCell>
+                <TableCell className="text-right">{formatSeconds(speaker.talkSeconds)}</TableCell>
+                <TableCell className="text-right">
+                  {speaker.talkListenRatio != null ? speaker.talkListenRatio.toFixed(2) : "—"}
+                </TableCell>
+                <TableCell className="text-right">{speaker.turns}</TableCell>
+                <TableCell className="text-right">{formatSeconds(speaker.longestTurnSeconds)}</TableCell>
+                <TableCell className="text-right">{speaker.wordsPerMinute ?? "—"}</TableCell>
+                <TableCell className="text-right">{speaker.interruptionsMade}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Plus, Trash2 } from "lucide-react";
+import { GlossaryTerm, glossaryTermsSchema } from "@/types/glossarySchema";
+
+interface GlossaryEditorProps {
+  initial: GlossaryTerm[];
+  saving: boolean;
+  readOnly: boolean;
+  onSave: (terms: GlossaryTerm[]) => void;
+}
+
+// Aliases are edited as one comma-separated field and only split on save,
+// so typing a trailing comma does not fight the input
+interface TermRow {
+  term: string;
+  aliases: string;
+  pronunciation: string;
+}
+
+const toRow = (term: GlossaryTerm): TermRow => ({
+  term: term.term,
+  aliases: term.aliases.join(", "),
+  pronunciation: term.pronunciation || ""
+});
+
+const toTerm = (row: TermRow): GlossaryTerm => ({
+  term: row.term,
+  aliases: row.aliases.split(",").map(alias => alias.trim()).filter(Boolean),
+  pronunciation: row.pronunciation.trim() || undefined
+});
+
+const EMPTY_ROW: TermRow = { term: "", aliases: "", pronunciation: "" };
+
+export const GlossaryEditor = ({ initial, saving, readOnly, onSave }: GlossaryEditorProps) => {
+  const [rows, setRows] = useState<TermRow[]>(initial.map(toRow));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateRow = (index: number, updates: Partial<TermRow>) => {
+    setRows(prev => prev.map((row, i) => i === index ? { ...row, ...updates } : row));
+  };
+
+  const handleSave = () => {
+    const result = glossaryTermsSchema.safeParse(rows.map(toTerm));
+    if (!result.success) {
+      setErrors(result.error.issues.map(issue =>
+        typeof issue.path[0] === "number" ? `Row ${issue.path[0] + 1}: ${issue.message}` : issue.message
+      ));
+      return;
+    }
+
+    setErrors([]);
+    onSave(result.data);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-1/4">Term</TableHead>
+            <TableHead>Common misspellings</TableHead>
+            <TableHead className="w-1/4">Pronunciation</TableHead>
+            {!readOnly && <TableHead className="w-12" />}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 && (
+            <TableRow>
+              <TableCell colSpan={4} className="text-center text-muted-foreground py-6">
+                No terms yet
+              </TableCell>
+            </TableRow>
+          )}
+          {rows.map((row, index) => (
+            <TableRow key={index}>
+              <TableCell>
+                <Input
+                  placeholder="Vocalytics"
+                  value={row.term}
+                  disabled={readOnly}
+                  onChange={(e) => updateRow(index, { term: e.target.value })}
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  placeholder="vocal lytics, vocalitics"
+                  value={row.aliases}
+                  disabled={readOnly}
+                  onChange={(e) => updateRow(index, { aliases: e.target.value })}
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  placeholder="voh-kuh-lit-iks"
+                  value={row.pronunciation}
+                  disabled={readOnly}
+                  onChange={(e) => updateRow(index, { pronunciation: e.target.value })}
+                />
+              </TableCell>
+              {!readOnly && (
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Remove term"
+                    onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {errors.map((error, index) => <li key={index}>{error}</li>)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!readOnly && (
+        <div className="flex justify-between gap-2">
+          <Button variant="outline" onClick={() => setRows(prev => [...prev, EMPTY_ROW])}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add term
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? "Saving..." : "Save glossary"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { OBJECTION_HANDLING_LABELS, countObjections } from "@/lib/objections";
+import { TranscriptionData } from "@/types/transcription";
+
+interface ObjectionFrequencyChartProps {
+  transcriptions: TranscriptionData[];
+}
+
+const chartConfig = {
+  handled: { label: OBJECTION_HANDLING_LABELS.handled, color: "hsl(142 71% 45%)" },
+  partial: { label: OBJECTION_HANDLING_LABELS.partial, color: "hsl(45 93% 47%)" },
+  unhandled: { label: OBJECTION_HANDLING_LABELS.unhandled, color: "hsl(0 84% 60%)" }
+} satisfies ChartConfig;
+
+// Which objections come up most across the listed calls, and how often agents
+// get past them. Hidden until at least one analysed call has an objection.
+export const ObjectionFrequencyChart = ({ transcriptions }: ObjectionFrequencyChartProps) => {
+  const frequencies = countObjections(transcriptions);
+  if (frequencies.length === 0) return null;
+
+  const callsWithObjections = transcriptions.filter(transcription => transcription.analysis?.objections?.length).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Objections Across Calls</CardTitle>
+        <CardDescription>
+          Raised on {callsWithObjections} of {transcriptions.length} call{transcriptions.length === 1 ? "" : "s"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={chartConfig} className="h-64 w-full">
+          <BarChart data={frequencies} margin={{ left: 0, right: 16 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="category" tickLine={false} axisLine={false} />
+            <YAxis allowDecimals={false} width={32} tickLine={false} axisLine={false} />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="handled" stackId="handling" fill="var(--color-handled)" />
+            <Bar dataKey="partial" stackId="handling" fill="var(--color-partial)" />
+            <Bar dataKey="unhandled" stackId="handling" fill="var(--color-unhandled)" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,80 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { MessageSquareWarning } from "lucide-react";
+import { OBJECTION_CATEGORY_LABELS, OBJECTION_HANDLING_LABELS } from "@/lib/objections";
+import { formatTimestamp } from "@/lib/format";
+import { CallAnalysis, ObjectionHandling as HandlingRating } from "@/types/transcription";
+import { PiiText } from "./PiiText";
+
+interface ObjectionHandlingProps {
+  analysis: CallAnalysis;
+  onSelectSegment: (segmentId: number) => void;
+}
+
+const HANDLING_STYLES: Record<HandlingRating, string> = {
+  handled: "bg-green-500/10 text-green-700 border-green-200",
+  partial: "bg-yellow-500/10 text-yellow-700 border-yellow-200",
+  unhandled: "bg-red-500/10 text-red-700 border-red-200"
+};
+
+// Each objection next to the agent's reply, so a reviewer can judge the pair
+export const ObjectionHandling = ({ analysis, onSelectSegment }: ObjectionHandlingProps) => {
+  const objections = analysis.objections || [];
+  const segmentById = new Map(analysis.transcript.map(segment => [segment.id, segment]));
+  const handled = objections.filter(objection => objection.handling === "handled").length;
+
+  const quote = (segmentId: number, label: string) => {
+    const segment = segmentById.get(segmentId);
+    if (!segment) return null;
+    return (
+      <div className="space-y-1">
+        <button
+          type="button"
+          className="text-xs text-muted-foreground hover:text-primary hover:underline"
+          onClick={() => onSelectSegment(segmentId)}
+        >
+          {label} at {formatTimestamp(segment.start)}
+        </button>
+        <p className="text-sm border-l-2 pl-3">
+          <PiiText text={segment.text} />
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <MessageSquareWarning className="h-5 w-5" />
+          <span>Objection Handling</span>
+        </CardTitle>
+        <CardDescription>
+          {objections.length === 0
+            ? "The customer raised no objections"
+            : `${handled} of ${objections.length} objection${objections.length === 1 ? "" : "s"} fully handled`}
+        </CardDescription>
+      </CardHeader>
+      {objections.length > 0 && (
+        <CardContent className="space-y-4">
+          {objections.map((objection, index) => (
+            <div key={index} className="rounded-lg border p-4 space-y-3">
+              <div className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline">{OBJECTION_CATEGORY_LABELS[objection.category]}</Badge>
+                <Badge className={HANDLING_STYLES[objection.handling]}>{OBJECTION_HANDLING_LABELS[objection.handling]}</Badge>
+                <span className="text-sm font-medium">{objection.summary}</span>
+              </div>
+              <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+                {quote(objection.segmentId, "Customer")}
+                {objection.responseSegmentId !== null
+                  ? quote(objection.responseSegmentId, "Agent reply")
+                  : <p className="text-sm text-muted-foreground">The agent did not respond to this objection</p>}
+              </div>
+              <p className="text-sm text-muted-foreground">{objection.assessment}</p>
+            </div>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,47 @@
+import { Lock } from "lucide-react";
+import { PII_TYPE_LABELS, TextPart, splitRedactedText, splitUnredactedText } from "@/lib/redaction";
+import { PiiEntity } from "@/types/transcription";
+
+interface PiiTextProps {
+  text: string;
+  // Pass the segment's entities when `text` is the unredacted original
+  entities?: PiiEntity[];
+}
+
+// Renders transcript text with redaction markers as labelled chips, or with
+// the original values highlighted when showing the unredacted variant
+export const PiiText = ({ text, entities }: PiiTextProps) => {
+  const parts: TextPart[] = entities ? splitUnredactedText(text, entities) : splitRedactedText(text);
+
+  return (
+    <>
+      {parts.map((part, index) => {
+        switch (part.kind) {
+          case "text":
+            return <span key={index}>{part.text}</span>;
+          case "redacted":
+            return (
+              <span
+                key={index}
+                className="inline-flex items-center gap-1 rounded bg-muted px-1.5 text-xs font-medium text-muted-foreground align-baseline"
+                title="Redacted personal data"
+              >
+                <Lock className="h-3 w-3" />
+                {PII_TYPE_LABELS[part.type]}
+              </span>
+            );
+          case "pii":
+            return (
+              <mark
+                key={index}
+                className="rounded bg-amber-200/70 px-0.5 dark:bg-amber-500/30 dark:text-foreground"
+                title={PII_TYPE_LABELS[part.type]}
+              >
+                {part.text}
+              </mark>
+            );
+        }
+      })}
+    </>
+  );
+};
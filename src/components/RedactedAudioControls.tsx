@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { ShieldCheck } from "lucide-react";
+import { AUDIO_REDACTION_MODE_LABELS, recreateRedactedAudio } from "@/lib/audioRedaction";
+import { AudioRedactionMode, TranscriptionData } from "@/types/transcription";
+
+interface RedactedAudioControlsProps {
+  transcription: TranscriptionData;
+  onUpdate: (updates: Partial<TranscriptionData>) => void;
+}
+
+// Shown to members who hear the original recording: re-renders the copy that
+// everyone else is served, with each PII span bleeped or silenced
+export const RedactedAudioControls = ({ transcription, onUpdate }: RedactedAudioControlsProps) => {
+  const [mode, setMode] = useState<AudioRedactionMode>(transcription.redactedAudioMode || "tone");
+  const [rendering, setRendering] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const entities = transcription.piiEntities || [];
+  if (!transcription.audioUrl || entities.length === 0) return null;
+
+  const handleCreate = async () => {
+    setRendering(true);
+    try {
+      const redacted = await recreateRedactedAudio(transcription.id, mode);
+      setMode(redacted.mode);
+      setPreviewUrl(redacted.url);
+      onUpdate({ redactedAudioMode: redacted.mode });
+      toast({
+        title: "Redacted recording saved",
+        description: redacted.mode === mode
+          ? "Members without access to personal data will hear this copy"
+          : "MP3 recordings can only be silenced, so this copy uses silence"
+      });
+    } catch (error) {
+      toast({
+        title: "Could not create redacted recording",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setRendering(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border p-3">
+      <p className="text-sm text-muted-foreground flex items-center gap-1">
+        <ShieldCheck className="h-4 w-4" />
+        {transcription.redactedAudioMode
+          ? `Others hear a copy with ${entities.length} span${entities.length === 1 ? "" : "s"} masked (${AUDIO_REDACTION_MODE_LABELS[transcription.redactedAudioMode].toLowerCase()}).`
+          : "Others cannot play this recording until a redacted copy is created."}
+      </p>
+      <div className="flex items-center gap-2">
+        <Select value={mode} onValueChange={(value) => setMode(value as AudioRedactionMode)}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(AUDIO_REDACTION_MODE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" size="sm" onClick={handleCreate} disabled={rendering}>
+          {rendering
+            ? "Rendering..."
+            : transcription.redactedAudioMode ? "Re-create redacted copy" : "Create redacted copy"}
+        </Button>
+      </div>
+      {previewUrl && <audio src={previewUrl} controls className="w-full" />}
+    </div>
+  );
+};
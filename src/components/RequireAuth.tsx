@@ -0,0 +1,20 @@
+import { ReactNode } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { useAuth } from "@/hooks/use-auth";
+
+interface RequireAuthProps {
+  children: ReactNode;
+}
+
+// Sends visitors without an account to the sign-in page, remembering where they were headed
+export const RequireAuth = ({ children }: RequireAuthProps) => {
+  const { signedIn, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) return null;
+  if (!signedIn) {
+    return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+  }
+
+  return <>{children}</>;
+};
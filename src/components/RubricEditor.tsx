@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { RubricDraft } from "@/lib/rubrics";
+import { CALL_TYPES, CALL_TYPE_LABELS } from "@/lib/callTypes";
+import { RUBRIC_TOTAL_POINTS, RubricCategory, rubricCategoriesSchema } from "@/types/rubricSchema";
+
+const ANY_CALL_TYPE = "any";
+
+interface RubricEditorProps {
+  initial: RubricDraft;
+  saving: boolean;
+  onSave: (draft: RubricDraft) => void;
+  onCancel: () => void;
+}
+
+const emptyCategory = (): RubricCategory => ({
+  name: "",
+  weight: 1,
+  criteria: [{ name: "", points: 1 }]
+});
+
+// A category's weight is always the sum of its criteria, so editors only
+// ever adjust points on individual criteria.
+const withDerivedWeight = (category: RubricCategory): RubricCategory => ({
+  ...category,
+  weight: Math.round(category.criteria.reduce((total, criterion) => total + criterion.points, 0) * 100) / 100
+});
+
+export const RubricEditor = ({ initial, saving, onSave, onCancel }: RubricEditorProps) => {
+  const [draft, setDraft] = useState<RubricDraft>(initial);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const totalPoints = draft.categories.reduce((total, category) => total + category.weight, 0);
+
+  const updateCategory = (index: number, updates: Partial<RubricCategory>) => {
+    setDraft(prev => ({
+      ...prev,
+      categories: prev.categories.map((category, i) =>
+        i === index ? withDerivedWeight({ ...category, ...updates }) : category
+      )
+    }));
+  };
+
+  const removeCategory = (index: number) => {
+    setDraft(prev => ({ ...prev, categories: prev.categories.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = () => {
+    const result = rubricCategoriesSchema.safeParse(draft.categories);
+    const issues = [
+      ...(draft.name.trim() ? [] : ["Rubric name is required"]),
+      ...(result.success ? [] : result.error.issues.map(issue => issue.message))
+    ];
+
+    setErrors(issues);
+    if (issues.length === 0 && result.success) {
+      onSave({ ...draft, categories: result.data });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="rubric-name">Name</Label>
+          <Input
+            id="rubric-name"
+            value={draft.name}
+            onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Call type</Label>
+          <Select
+            value={draft.callType || ANY_CALL_TYPE}
+            onValueChange={(value) => setDraft(prev => ({
+              ...prev,
+              callType: value === ANY_CALL_TYPE ? null : value as RubricDraft["callType"]
+            }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_CALL_TYPE}>Any call type</SelectItem>
+              {CALL_TYPES.map(type => (
+                <SelectItem key={type} value={type}>{CALL_TYPE_LABELS[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="rubric-description">Description</Label>
+        <Textarea
+          id="rubric-description"
+          value={draft.description}
+          onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+        />
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch
+          id="rubric-default"
+          checked={draft.isDefault}
+          onCheckedChange={(checked) => setDraft(prev => ({ ...prev, isDefault: checked }))}
+        />
+        <Label htmlFor="rubric-default">Use as my default rubric</Label>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">Categories</h3>
+          <span className={Math.abs(totalPoints - RUBRIC_TOTAL_POINTS) < 0.001 ? "text-sm text-muted-foreground" : "text-sm text-destructive"}>
+            {totalPoints.toFixed(1)} / {RUBRIC_TOTAL_POINTS} points
+          </span>
+        </div>
+
+        {draft.categories.map((category, categoryIndex) => (
+          <Card key={categoryIndex}>
+            <CardHeader className="pb-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  placeholder="Category name"
+                  value={category.name}
+                  onChange={(e) => updateCategory(categoryIndex, { name: e.target.value })}
+                />
+                <span className="text-sm text-muted-foreground whitespace-nowrap">
+                  {category.weight.toFixed(1)} pts
+                </span>
+                <Button variant="ghost" size="icon" onClick={() => removeCategory(categoryIndex)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {category.criteria.map((criterion, criterionIndex) => (
+                <div key={criterionIndex} className="flex items-center gap-2">
+                  <Input
+                    placeholder="Criterion"
+                    value={criterion.name}
+                    onChange={(e) => updateCategory(categoryIndex, {
+                      criteria: category.criteria.map((c, i) =>
+                        i === criterionIndex ? { ...c, name: e.target.value } : c
+                      )
+                    })}
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    className="w-24"
+                    value={criterion.points}
+                    onChange={(e) => updateCategory(categoryIndex, {
+                      criteria: category.criteria.map((c, i) =>
+                        i === criterionIndex ? { ...c, points: Number(e.target.value) } : c
+                      )
+                    })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => updateCategory(categoryIndex, {
+                      criteria: category.criteria.filter((_, i) => i !== criterionIndex)
+                    })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Input
+                placeholder="Guidance for the analyst (optional)"
+                value={category.guidance || ""}
+                onChange={(e) => updateCategory(categoryIndex, { guidance: e.target.value || undefined })}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateCategory(categoryIndex, {
+                  criteria: [...category.criteria, { name: "", points: 0.5 }]
+                })}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add criterion
+              </Button>
+            </CardContent>
+          </Card>
+        ))}
+
+        <Button
+          variant="outline"
+          onClick={() => setDraft(prev => ({ ...prev, categories: [...prev.categories, emptyCategory()] }))}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add category
+        </Button>
+      </div>
+
+      {errors.length > 0 && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            <ul className="list-disc pl-4 space-y-1">
+              {errors.map((error, index) => <li key={index}>{error}</li>)}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" onClick={onCancel} disabled={saving}>Cancel</Button>
+        <Button onClick={handleSave} disabled={saving}>
+          {saving ? "Saving..." : "Save rubric"}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ScoreBreakdownItem } from "@/types/transcription";
+
+interface ScoreBreakdownProps {
+  items: ScoreBreakdownItem[];
+}
+
+interface CategoryTotal {
+  category: string;
+  awarded: number;
+  missed: number;
+}
+
+const chartConfig = {
+  awarded: { label: "Awarded", color: "hsl(var(--primary))" },
+  missed: { label: "Missed", color: "hsl(var(--muted-foreground) / 0.25)" }
+} satisfies ChartConfig;
+
+const formatPoints = (points: number) => points.toFixed(1);
+
+// Groups criteria by category, keeping the rubric's category order
+const totalByCategory = (items: ScoreBreakdownItem[]): CategoryTotal[] => {
+  const totals = new Map<string, CategoryTotal>();
+
+  for (const item of items) {
+    const total = totals.get(item.category) || { category: item.category, awarded: 0, missed: 0 };
+    total.awarded = Math.round((total.awarded + item.awardedPoints) * 10) / 10;
+    total.missed = Math.round((total.missed + item.maxPoints - item.awardedPoints) * 10) / 10;
+    totals.set(item.category, total);
+  }
+
+  return [...totals.values()];
+};
+
+export const ScoreBreakdown = ({ items }: ScoreBreakdownProps) => {
+  const categories = totalByCategory(items);
+
+  return (
+    <div className="space-y-6">
+      <ChartContainer config={chartConfig} className="w-full" style={{ height: categories.length * 44 + 40 }}>
+        <BarChart data={categories} layout="vertical" margin={{ left: 8, right: 16 }}>
+          <CartesianGrid horizontal={false} />
+          <XAxis type="number" tickLine={false} axisLine={false} />
+          <YAxis type="category" dataKey="category" width={180} tickLine={false} axisLine={false} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <Bar dataKey="awarded" stackId="points" fill="var(--color-awarded)" radius={[4, 0, 0, 4]} />
+          <Bar dataKey="missed" stackId="points" fill="var(--color-missed)" radius={[0, 4, 4, 0]} />
+        </BarChart>
+      </ChartContainer>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Category</TableHead>
+            <TableHead>Criterion</TableHead>
+            <TableHead className="text-right">Points</TableHead>
+            <TableHead>Justification</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {items.map((item, index) => (
+            <TableRow key={index}>
+              <TableCell className="font-medium align-top">
+                {index === 0 || items[index - 1].category !== item.category ? item.category : ""}
+              </TableCell>
+              <TableCell className="align-top">{item.criterion}</TableCell>
+              <TableCell className="text-right align-top whitespace-nowrap">
+                {formatPoints(item.awardedPoints)} / {formatPoints(item.maxPoints)}
+              </TableCell>
+              <TableCell className="text-muted-foreground align-top">{item.justification}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+import { CartesianGrid, Line, LineChart, ReferenceDot, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { TrendingDown, TrendingUp } from "lucide-react";
+import { formatTimestamp } from "@/lib/format";
+import { buildSentimentSeries, findSentimentDips, formatSentimentScore, getCustomerSentimentDelta } from "@/lib/sentiment";
+import { getSpeaker } from "@/lib/speakers";
+import { CallAnalysis } from "@/types/transcription";
+
+interface SentimentTimelineProps {
+  analysis: CallAnalysis;
+  onSelectSegment: (segmentId: number) => void;
+}
+
+// One line colour per speaker, in the order the analysis lists them
+const LINE_COLORS = [
+  "hsl(var(--primary))",
+  "hsl(217 91% 60%)",
+  "hsl(38 92% 50%)",
+  "hsl(160 84% 39%)",
+  "hsl(350 89% 60%)"
+];
+
+export const SentimentTimeline = ({ analysis, onSelectSegment }: SentimentTimelineProps) => {
+  const series = buildSentimentSeries(analysis);
+  const dips = findSentimentDips(analysis);
+  const delta = getCustomerSentimentDelta(analysis);
+  const chartConfig = Object.fromEntries(
+    analysis.speakers.map((speaker, index) => [
+      speaker.id,
+      { label: speaker.label, color: LINE_COLORS[index % LINE_COLORS.length] }
+    ])
+  ) satisfies ChartConfig;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <TrendingUp className="h-5 w-5" />
+          <span>Sentiment Over Time</span>
+        </CardTitle>
+        <CardDescription>Click a point to jump to that part of the transcript</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {delta && (
+          <div className="flex items-center gap-2 text-sm">
+            {delta.delta < 0
+              ? <TrendingDown className="h-4 w-4 text-red-600" />
+              : <TrendingUp className="h-4 w-4 text-green-600" />}
+            <span>
+              Customer sentiment went from {formatSentimentScore(delta.start)} at the start to {formatSentimentScore(delta.end)} at the end
+            </span>
+            <span className={`font-medium ${delta.delta < 0 ? "text-red-600" : "text-green-600"}`}>
+              ({formatSentimentScore(delta.delta)})
+            </span>
+          </div>
+        )}
+
+        <ChartContainer config={chartConfig} className="h-64 w-full">
+          <LineChart
+            data={series}
+            margin={{ left: 0, right: 16, top: 8 }}
+            onClick={state => {
+              const point = state?.activePayload?.[0]?.payload;
+              if (point) onSelectSegment(point.segmentId);
+            }}
+          >
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={formatTimestamp}
+              tickLine={false}
+              axisLine={false}
+            />
+            <YAxis domain={[-1, 1]} ticks={[-1, -0.5, 0, 0.5, 1]} width={32} tickLine={false} axisLine={false} />
+            <ReferenceLine y={0} stroke="hsl(var(--border))" />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => formatTimestamp(payload[0]?.payload.time ?? 0)} />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            {analysis.speakers.map(speaker => (
+              <Line
+                key={speaker.id}
+                dataKey={speaker.id}
+                type="monotone"
+                stroke={`var(--color-${speaker.id})`}
+                strokeWidth={2}
+                dot={{ r: 3 }}
+                connectNulls
+                className="cursor-pointer"
+              />
+            ))}
+            {dips.map(dip => (
+              <ReferenceDot
+                key={dip.id}
+                x={dip.start}
+                y={dip.sentiment.score}
+                r={6}
+                fill="hsl(var(--destructive))"
+                stroke="none"
+                className="cursor-pointer"
+                onClick={() => onSelectSegment(dip.id)}
+              />
+            ))}
+          </LineChart>
+        </ChartContainer>
+
+        {dips.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            <span>Customer dips:</span>
+            {dips.map(dip => (
+              <button
+                key={dip.id}
+                type="button"
+                className="rounded border px-2 py-0.5 hover:border-primary hover:text-primary"
+                onClick={() => onSelectSegment(dip.id)}
+              >
+                {formatTimestamp(dip.start)} · {getSpeaker(analysis, dip.speakerId)?.label} {formatSentimentScore(dip.sentiment.score)}
+              </button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
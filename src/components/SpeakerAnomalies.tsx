@@ -0,0 +1,80 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { AlertTriangle, CheckCircle } from "lucide-react";
+import { SPEAKER_ROLE_LABELS, formatConfidence } from "@/lib/speakers";
+import { CallAnalysis } from "@/types/transcription";
+import { SpeakerIcon } from "./SpeakerBadge";
+
+interface SpeakerAnomaliesProps {
+  analysis: CallAnalysis;
+}
+
+// One card per participant, in the order the analysis lists them
+export const SpeakerAnomalies = ({ analysis }: SpeakerAnomaliesProps) => {
+  return (
+    <div className={`grid grid-cols-1 gap-6 ${analysis.speakers.length > 2 ? "md:grid-cols-3" : "md:grid-cols-2"}`}>
+      {analysis.speakers.map(speaker => {
+        const anomalies = analysis.anomalies.find(entry => entry.speakerId === speaker.id);
+        const positive = anomalies?.positive || [];
+        const negative = anomalies?.negative || [];
+
+        return (
+          <Card key={speaker.id}>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <SpeakerIcon role={speaker.role} className="h-5 w-5" />
+                <span>{speaker.label}</span>
+                <span className="text-sm font-normal text-muted-foreground">
+                  {SPEAKER_ROLE_LABELS[speaker.role]}
+                  {speaker.roleConfidence != null && ` · ${formatConfidence(speaker.roleConfidence)}`}
+                </span>
+              </CardTitle>
+              {speaker.roleEvidence && (
+                <p className="text-xs text-muted-foreground">{speaker.roleEvidence}</p>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <h4 className="font-medium text-green-600 mb-2 flex items-center">
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Positive Behaviors ({positive.length})
+                </h4>
+                {positive.length > 0 ? (
+                  <ul className="space-y-2">
+                    {positive.map((item, index) => (
+                      <li key={index} className="flex items-start space-x-2">
+                        <div className="w-2 h-2 bg-green-500 rounded-full mt-2 flex-shrink-0" />
+                        <span className="text-sm">{item}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No positive behaviors identified</p>
+                )}
+              </div>
+              <Separator />
+              <div>
+                <h4 className="font-medium text-red-600 mb-2 flex items-center">
+                  <AlertTriangle className="h-4 w-4 mr-2" />
+                  Areas for Improvement ({negative.length})
+                </h4>
+                {negative.length > 0 ? (
+                  <ul className="space-y-2">
+                    {negative.map((item, index) => (
+                      <li key={index} className="flex items-start space-x-2">
+                        <div className="w-2 h-2 bg-red-500 rounded-full mt-2 flex-shrink-0" />
+                        <span className="text-sm">{item}</span>
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="text-sm text-muted-foreground">No issues identified</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import { Badge } from "@/components/ui/badge";
+import { Headphones, ShieldCheck, User, UserCheck, Users } from "lucide-react";
+import { SPEAKER_ROLE_LABELS } from "@/lib/speakers";
+import { Speaker, SpeakerRole } from "@/types/transcription";
+
+const ROLE_ICONS: Record<SpeakerRole, typeof User> = {
+  agent: UserCheck,
+  customer: User,
+  supervisor: ShieldCheck,
+  ivr: Headphones,
+  other: Users
+};
+
+const ROLE_COLORS: Record<SpeakerRole, string> = {
+  agent: "text-green-500",
+  customer: "text-blue-500",
+  supervisor: "text-purple-500",
+  ivr: "text-muted-foreground",
+  other: "text-muted-foreground"
+};
+
+interface SpeakerBadgeProps {
+  speaker?: Speaker;
+}
+
+export const SpeakerIcon = ({ role, className = "h-4 w-4" }: { role: SpeakerRole; className?: string }) => {
+  const Icon = ROLE_ICONS[role];
+  return <Icon className={`${className} ${ROLE_COLORS[role]}`} />;
+};
+
+export const SpeakerBadge = ({ speaker }: SpeakerBadgeProps) => {
+  if (!speaker) {
+    return <Badge variant="outline">Unknown</Badge>;
+  }
+
+  const roleLabel = SPEAKER_ROLE_LABELS[speaker.role];
+
+  return (
+    <div className="flex items-center gap-2">
+      <SpeakerIcon role={speaker.role} />
+      <Badge
+        variant={speaker.role === "agent" ? "secondary" : "outline"}
+        title={speaker.roleEvidence ? `${roleLabel}: ${speaker.roleEvidence}` : roleLabel}
+      >
+        {speaker.label}
+        {speaker.label !== roleLabel && (
+          <span className="ml-1 font-normal text-muted-foreground">{roleLabel}</span>
+        )}
+      </Badge>
+    </div>
+  );
+};
@@ -2,10 +2,17 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useToast } from "@/hooks/use-toast";
 import { Copy, Download, AlertTriangle, Lightbulb, Clock } from "lucide-react";
-import { TranscriptionData } from "@/types/transcription";
+import { TranscriptionData, TranscriptionStatus } from "@/types/transcription";
+import { getStatusLabel, isJobActive } from "@/lib/transcriptionJobs";
+import { formatTimestamp } from "@/lib/format";
+import { getSpeaker } from "@/lib/speakers";
+import { SpeakerBadge } from "./SpeakerBadge";
+import { SpeakerAnomalies } from "./SpeakerAnomalies";
+import { PiiText } from "./PiiText";
 
 interface TranscriptionResultsProps {
   transcription: TranscriptionData;
@@ -38,7 +45,7 @@ Call Transcription Report
 
 Timestamp: ${new Date(transcription.timestamp).toLocaleString()}
 Duration: ${Math.floor(transcription.duration / 60)}:${(transcription.duration % 60).toString().padStart(2, '0')}
-Status: ${transcription.status}
+Status: ${getStatusLabel(transcription.status)}
 
 Transcript:
 -----------
@@ -75,63 +82,17 @@ ${transcription.suggestions.length > 0 ? transcription.suggestions.map(s => `•
     return `${mins}m ${secs}s`;
   };
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: TranscriptionStatus) => {
     switch (status) {
       case 'completed': return 'bg-green-500/10 text-green-700 border-green-200';
-      case 'processing': return 'bg-yellow-500/10 text-yellow-700 border-yellow-200';
-      case 'error': return 'bg-red-500/10 text-red-700 border-red-200';
+      case 'queued':
+      case 'transcribing':
+      case 'analyzing': return 'bg-yellow-500/10 text-yellow-700 border-yellow-200';
+      case 'failed': return 'bg-red-500/10 text-red-700 border-red-200';
       default: return 'bg-gray-500/10 text-gray-700 border-gray-200';
     }
   };
 
-  // Dynamic role identification based on analysis
-  const identifyRoles = () => {
-    if (!transcription.analysis) return null;
-    
-    // Analyze the suggestions and anomalies to determine who is the agent
-    // Suggestions are typically for agents, and receiver positive behaviors often indicate agent skills
-    const receiverHasAgentSkills = transcription.analysis.anomalies.receiver.positive.some(positive => 
-      positive.toLowerCase().includes('professional') || 
-      positive.toLowerCase().includes('helpful') ||
-      positive.toLowerCase().includes('explained') ||
-      positive.toLowerCase().includes('guided') ||
-      positive.toLowerCase().includes('addressed')
-    );
-    
-    const callerHasAgentSkills = transcription.analysis.anomalies.caller.positive.some(positive => 
-      positive.toLowerCase().includes('professional') || 
-      positive.toLowerCase().includes('helpful') ||
-      positive.toLowerCase().includes('explained') ||
-      positive.toLowerCase().includes('guided') ||
-      positive.toLowerCase().includes('addressed')
-    );
-    
-    // If suggestions exist (they're for agents), and receiver shows agent skills, receiver is likely agent
-    if (transcription.suggestions.length > 0 && receiverHasAgentSkills && !callerHasAgentSkills) {
-      return { agentRole: 'Receiver', customerRole: 'Caller' };
-    }
-    
-    // If caller shows more agent skills, caller is likely agent
-    if (callerHasAgentSkills && !receiverHasAgentSkills) {
-      return { agentRole: 'Caller', customerRole: 'Receiver' };
-    }
-    
-    // Default fallback: assume receiver is agent (common in business calls)
-    return { agentRole: 'Receiver', customerRole: 'Caller' };
-  };
-
-  const roles = identifyRoles();
-
-  const getSpeakerLabel = (speaker: 'Caller' | 'Receiver') => {
-    if (!roles) return speaker;
-    return speaker === roles.agentRole ? 'Agent' : 'Customer';
-  };
-
-  const getSpeakerVariant = (speaker: 'Caller' | 'Receiver') => {
-    if (!roles) return 'default';
-    return speaker === roles.agentRole ? 'default' : 'secondary';
-  };
-
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -142,7 +103,7 @@ ${transcription.suggestions.length > 0 ? transcription.suggestions.map(s => `•
               <CardTitle className="flex items-center gap-2">
                 Transcription Results
                 <Badge className={getStatusColor(transcription.status)}>
-                  {transcription.status}
+                  {getStatusLabel(transcription.status)}
                 </Badge>
               </CardTitle>
               <CardDescription className="flex items-center gap-4 mt-2">
@@ -175,25 +136,48 @@ ${transcription.suggestions.length > 0 ? transcription.suggestions.map(s => `•
         </CardHeader>
       </Card>
 
+      {/* Analysis failure: the transcript is kept, but no score is shown */}
+      {transcription.analysisFailure && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Call analysis unavailable</AlertTitle>
+          <AlertDescription>
+            <p>
+              {transcription.analysisFailure.reason} after {transcription.analysisFailure.attempts} attempts.
+              The transcript below is complete, but this call has not been scored.
+            </p>
+            {transcription.analysisFailure.issues.length > 0 && (
+              <ul className="mt-2 list-disc pl-5 text-xs">
+                {transcription.analysisFailure.issues.slice(0, 5).map((issue, index) => (
+                  <li key={index}>{issue}</li>
+                ))}
+              </ul>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Transcript */}
       <Card>
         <CardHeader>
           <CardTitle>Sales Call Transcript</CardTitle>
           <CardDescription>
-            Full transcription with dynamic speaker identification (Agent and Customer roles)
+            Full transcription with every identified participant and their role
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {transcription.status === 'processing' ? (
+          {isJobActive(transcription.status) ? (
             <div className="flex items-center justify-center py-8">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
-              <span className="ml-3 text-muted-foreground">Processing audio...</span>
+              <span className="ml-3 text-muted-foreground">
+                {transcription.status === 'queued' ? 'Waiting in queue...' : `${getStatusLabel(transcription.status)} audio...`}
+              </span>
             </div>
-          ) : transcription.status === 'error' ? (
+          ) : transcription.status === 'failed' && !transcription.transcript ? (
             <div className="text-center py-8">
               <AlertTriangle className="w-12 h-12 text-red-500 mx-auto mb-4" />
               <p className="text-red-600 font-medium">Error during transcription</p>
-              <p className="text-muted-foreground">Please try again with a different audio file</p>
+              <p className="text-muted-foreground">{transcription.error || 'Please try again with a different audio file'}</p>
             </div>
           ) : (
             <ScrollArea className="h-64 w-full rounded-md border p-4">
@@ -201,21 +185,19 @@ ${transcription.suggestions.length > 0 ? transcription.suggestions.map(s => `•
                 <div className="space-y-3">
                   {transcription.analysis.transcript.map((segment, index) => (
                     <div key={index} className="flex gap-3">
-                      <div className="flex-shrink-0">
-                        <Badge variant={getSpeakerVariant(segment.speaker)}>
-                          [{getSpeakerLabel(segment.speaker)}]
-                        </Badge>
-                        <span className="text-xs text-muted-foreground ml-2">{segment.timestamp}</span>
+                      <div className="flex-shrink-0 flex items-center gap-2">
+                        <SpeakerBadge speaker={getSpeaker(transcription.analysis, segment.speakerId)} />
+                        <span className="text-xs text-muted-foreground">{formatTimestamp(segment.start)}</span>
                       </div>
                       <p className="text-sm leading-relaxed flex-1">
-                        {segment.text}
+                        <PiiText text={segment.text} />
                       </p>
                     </div>
                   ))}
                 </div>
               ) : (
                 <p className="text-sm leading-relaxed whitespace-pre-wrap">
-                  {transcription.transcript || 'No transcript available'}
+                  {transcription.transcript ? <PiiText text={transcription.transcript} /> : 'No transcript available'}
                 </p>
               )}
             </ScrollArea>
@@ -225,141 +207,8 @@ ${transcription.suggestions.length > 0 ? transcription.suggestions.map(s => `•
 
       {/* Analysis Results */}
       <div className="space-y-6">
-        {/* Customer Analysis */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              Customer Analysis
-              <Badge variant="secondary">Customer</Badge>
-            </CardTitle>
-            <CardDescription>
-              Analysis of customer behavior and communication patterns
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid md:grid-cols-2 gap-4">
-              {/* Customer Positive Anomalies */}
-              <div className="space-y-3">
-                <h4 className="text-sm font-medium text-green-600 flex items-center gap-2">
-                  <div className="w-2 h-2 bg-green-500 rounded-full" />
-                  Positive Behaviors ({roles?.customerRole === 'Caller' ? 
-                    transcription.analysis?.anomalies.caller.positive.length || 0 : 
-                    transcription.analysis?.anomalies.receiver.positive.length || 0})
-                </h4>
-                {(roles?.customerRole === 'Caller' ? 
-                  transcription.analysis?.anomalies.caller.positive : 
-                  transcription.analysis?.anomalies.receiver.positive)?.length ? (
-                  <div className="space-y-2">
-                    {(roles?.customerRole === 'Caller' ? 
-                      transcription.analysis.anomalies.caller.positive : 
-                      transcription.analysis.anomalies.receiver.positive).map((positive, index) => (
-                      <div key={index} className="flex items-start gap-2">
-                        <div className="w-1.5 h-1.5 bg-green-400 rounded-full mt-2 flex-shrink-0" />
-                        <p className="text-xs text-green-700">{positive}</p>
-                      </div>
-                    ))}
-                  </div>
-                ) : (
-                  <p className="text-xs text-muted-foreground">No positive behaviors identified</p>
-                )}
-              </div>
-
-              {/* Customer Negative Anomalies */}
-              <div className="space-y-3">
-                <h4 className="text-sm font-medium text-red-600 flex items-center gap-2">
-                  <div className="w-2 h-2 bg-red-500 rounded-full" />
-                  Areas for Concern ({roles?.customerRole === 'Caller' ? 
-                    transcription.analysis?.anomalies.caller.negative.length || 0 : 
-                    transcription.analysis?.anomalies.receiver.negative.length || 0})
-                </h4>
-                {(roles?.customerRole === 'Caller' ? 
-                  transcription.analysis?.anomalies.caller.negative : 
-                  transcription.analysis?.anomalies.receiver.negative)?.length ? (
-                  <div className="space-y-2">
-                    {(roles?.customerRole === 'Caller' ? 
-                      transcription.analysis.anomalies.caller.negative : 
-                      transcription.analysis.anomalies.receiver.negative).map((negative, index) => (
-                      <div key={index} className="flex items-start gap-2">
-                        <div className="w-1.5 h-1.5 bg-red-400 rounded-full mt-2 flex-shrink-0" />
-                        <p className="text-xs text-red-700">{negative}</p>
-                      </div>
-                    ))}
-                  </div>
-                ) : (
-                  <p className="text-xs text-muted-foreground">No concerning behaviors identified</p>
-                )}
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Agent Analysis */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              Agent Analysis
-              <Badge variant="default">Agent</Badge>
-            </CardTitle>
-            <CardDescription>
-              Analysis of agent performance and communication effectiveness
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <div className="grid md:grid-cols-2 gap-4">
-              {/* Agent Positive Anomalies */}
-              <div className="space-y-3">
-                <h4 className="text-sm font-medium text-green-600 flex items-center gap-2">
-                  <div className="w-2 h-2 bg-green-500 rounded-full" />
-                  Strengths ({roles?.agentRole === 'Receiver' ? 
-                    transcription.analysis?.anomalies.receiver.positive.length || 0 : 
-                    transcription.analysis?.anomalies.caller.positive.length || 0})
-                </h4>
-                {(roles?.agentRole === 'Receiver' ? 
-                  transcription.analysis?.anomalies.receiver.positive : 
-                  transcription.analysis?.anomalies.caller.positive)?.length ? (
-                  <div className="space-y-2">
-                    {(roles?.agentRole === 'Receiver' ? 
-                      transcription.analysis.anomalies.receiver.positive : 
-                      transcription.analysis.anomalies.caller.positive).map((positive, index) => (
-                      <div key={index} className="flex items-start gap-2">
-                        <div className="w-1.5 h-1.5 bg-green-400 rounded-full mt-2 flex-shrink-0" />
-                        <p className="text-xs text-green-700">{positive}</p>
-                      </div>
-                    ))}
-                  </div>
-                ) : (
-                  <p className="text-xs text-muted-foreground">No strengths identified</p>
-                )}
-              </div>
-
-              {/* Agent Negative Anomalies */}
-              <div className="space-y-3">
-                <h4 className="text-sm font-medium text-red-600 flex items-center gap-2">
-                  <div className="w-2 h-2 bg-red-500 rounded-full" />
-                  Improvement Areas ({roles?.agentRole === 'Receiver' ? 
-                    transcription.analysis?.anomalies.receiver.negative.length || 0 : 
-                    transcription.analysis?.anomalies.caller.negative.length || 0})
-                </h4>
-                {(roles?.agentRole === 'Receiver' ? 
-                  transcription.analysis?.anomalies.receiver.negative : 
-                  transcription.analysis?.anomalies.caller.negative)?.length ? (
-                  <div className="space-y-2">
-                    {(roles?.agentRole === 'Receiver' ? 
-                      transcription.analysis.anomalies.receiver.negative : 
-                      transcription.analysis.anomalies.caller.negative).map((negative, index) => (
-                      <div key={index} className="flex items-start gap-2">
-                        <div className="w-1.5 h-1.5 bg-red-400 rounded-full mt-2 flex-shrink-0" />
-                        <p className="text-xs text-red-700">{negative}</p>
-                      </div>
-                    ))}
-                  </div>
-                ) : (
-                  <p className="text-xs text-muted-foreground">No improvement areas identified</p>
-                )}
-              </div>
-            </div>
-          </CardContent>
-        </Card>
+        {/* Per-speaker Analysis */}
+        {transcription.analysis && <SpeakerAnomalies analysis={transcription.analysis} />}
 
         {/* Agent Suggestions Only */}
         <Card>
@@ -0,0 +1,35 @@
+import { AlertTriangle } from "lucide-react";
+import { describeLimitReached, getTightestQuota } from "@/lib/usage";
+import { QuotaStatus, UsageQuota } from "@/lib/usageQuota";
+
+interface UsageQuotaSummaryProps {
+  quota: UsageQuota;
+}
+
+const formatMinutes = (minutes: number) => Math.floor(minutes).toLocaleString();
+
+const audioLeft = (status: QuotaStatus | undefined, period: string) =>
+  status && `${formatMinutes(status.remaining)} of ${formatMinutes(status.limit)} audio minutes left ${period}`;
+
+// One line under the upload button; turns into the reason and wait time once a
+// quota is used up
+export const UsageQuotaSummary = ({ quota }: UsageQuotaSummaryProps) => {
+  if (!quota.allowed) {
+    return (
+      <p className="flex items-center justify-center gap-2 text-sm text-destructive">
+        <AlertTriangle className="h-4 w-4 shrink-0" />
+        {describeLimitReached(quota)}
+      </p>
+    );
+  }
+
+  const requests = getTightestQuota(quota, "minute");
+  const parts = [
+    audioLeft(getTightestQuota(quota, "day"), "today"),
+    audioLeft(getTightestQuota(quota, "month"), "this month"),
+    requests && requests.used > 0 && `${requests.remaining} of ${requests.limit} uploads left this minute`
+  ].filter(Boolean);
+  if (parts.length === 0) return null;
+
+  return <p className="text-center text-sm text-muted-foreground">{parts.join(" · ")}</p>;
+};
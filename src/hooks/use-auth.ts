@@ -0,0 +1,18 @@
+import { createContext, useContext } from "react";
+import { Session } from "@supabase/supabase-js";
+
+export interface AuthContextType {
+  session: Session | null;
+  signedIn: boolean;
+  loading: boolean;
+}
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+};
@@ -14,51 +14,536 @@ export type Database = {
   }
   public: {
     Tables: {
+      action_items: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          description: string
+          due_date: string | null
+          due_text: string | null
+          id: string
+          owner: string
+          segment_id: number
+          segment_start: number
+          transcription_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          description: string
+          due_date?: string | null
+          due_text?: string | null
+          id?: string
+          owner: string
+          segment_id: number
+          segment_start: number
+          transcription_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          description?: string
+          due_date?: string | null
+          due_text?: string | null
+          id?: string
+          owner?: string
+          segment_id?: number
+          segment_start?: number
+          transcription_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "action_items_transcription_id_fkey"
+            columns: ["transcription_id"]
+            isOneToOne: false
+            referencedRelation: "transcriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      compliance_rule_set_versions: {
+        Row: {
+          created_at: string
+          organization_id: string
+          rules: Json
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          rules: Json
+          version: number
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          rules?: Json
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_rule_set_versions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "compliance_rule_sets"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
+      compliance_rule_sets: {
+        Row: {
+          created_at: string
+          organization_id: string
+          rules: Json
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          rules?: Json
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          rules?: Json
+          updated_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "compliance_rule_sets_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      glossaries: {
+        Row: {
+          created_at: string
+          organization_id: string
+          terms: Json
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          terms?: Json
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          terms?: Json
+          updated_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "glossaries_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      glossary_versions: {
+        Row: {
+          created_at: string
+          organization_id: string
+          terms: Json
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          terms: Json
+          version: number
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          terms?: Json
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "glossary_versions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "glossaries"
+            referencedColumns: ["organization_id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          can_view_unredacted: boolean
+          created_at: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          can_view_unredacted?: boolean
+          created_at?: string
+          organization_id: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          can_view_unredacted?: boolean
+          created_at?: string
+          organization_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      rubric_versions: {
+        Row: {
+          categories: Json
+          created_at: string
+          name: string
+          rubric_id: string
+          version: number
+        }
+        Insert: {
+          categories: Json
+          created_at?: string
+          name: string
+          rubric_id: string
+          version: number
+        }
+        Update: {
+          categories?: Json
+          created_at?: string
+          name?: string
+          rubric_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rubric_versions_rubric_id_fkey"
+            columns: ["rubric_id"]
+            isOneToOne: false
+            referencedRelation: "rubrics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rubrics: {
+        Row: {
+          call_type: string | null
+          categories: Json
+          created_at: string
+          description: string | null
+          id: string
+          is_default: boolean
+          name: string
+          updated_at: string
+          user_id: string | null
+          version: number
+        }
+        Insert: {
+          call_type?: string | null
+          categories: Json
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          name: string
+          updated_at?: string
+          user_id?: string | null
+          version?: number
+        }
+        Update: {
+          call_type?: string | null
+          categories?: Json
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_default?: boolean
+          name?: string
+          updated_at?: string
+          user_id?: string | null
+          version?: number
+        }
+        Relationships: []
+      }
+      transcription_unredacted: {
+        Row: {
+          created_at: string
+          segments: Json
+          transcript: string
+          transcription_id: string
+          words: Json
+        }
+        Insert: {
+          created_at?: string
+          segments: Json
+          transcript: string
+          transcription_id: string
+          words: Json
+        }
+        Update: {
+          created_at?: string
+          segments?: Json
+          transcript?: string
+          transcription_id?: string
+          words?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcription_unredacted_transcription_id_fkey"
+            columns: ["transcription_id"]
+            isOneToOne: true
+            referencedRelation: "transcriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transcriptions: {
         Row: {
+          agent_side: string | null
           analysis: Json | null
+          analysis_failure: Json | null
+          analysis_provider: string | null
           audio_file_path: string | null
+          call_type_override: string | null
+          compliance: Json | null
+          conversation_metrics: Json | null
           created_at: string
           duration: number | null
+          error: string | null
           file_name: string
           file_size: number | null
+          glossary_version: number | null
           id: string
+          language: string | null
+          language_mix: Json | null
+          organization_id: string | null
+          pii_entities: Json | null
+          redacted_audio_mode: string | null
+          redacted_audio_path: string | null
+          requested_call_type: string | null
+          rubric_id: string | null
+          rubric_version: number | null
+          segment_languages: Json | null
+          segments: Json | null
+          status: string
+          stt_provider: string | null
           transcript: string | null
           updated_at: string
           user_id: string | null
+          words: Json | null
         }
         Insert: {
+          agent_side?: string | null
           analysis?: Json | null
+          analysis_failure?: Json | null
+          analysis_provider?: string | null
           audio_file_path?: string | null
+          call_type_override?: string | null
+          compliance?: Json | null
+          conversation_metrics?: Json | null
           created_at?: string
           duration?: number | null
+          error?: string | null
           file_name: string
           file_size?: number | null
+          glossary_version?: number | null
           id?: string
+          language?: string | null
+          language_mix?: Json | null
+          organization_id?: string | null
+          pii_entities?: Json | null
+          redacted_audio_mode?: string | null
+          redacted_audio_path?: string | null
+          requested_call_type?: string | null
+          rubric_id?: string | null
+          rubric_version?: number | null
+          segment_languages?: Json | null
+          segments?: Json | null
+          status?: string
+          stt_provider?: string | null
           transcript?: string | null
           updated_at?: string
           user_id?: string | null
+          words?: Json | null
         }
         Update: {
+          agent_side?: string | null
           analysis?: Json | null
+          analysis_failure?: Json | null
+          analysis_provider?: string | null
           audio_file_path?: string | null
+          call_type_override?: string | null
+          compliance?: Json | null
+          conversation_metrics?: Json | null
           created_at?: string
           duration?: number | null
+          error?: string | null
           file_name?: string
           file_size?: number | null
+          glossary_version?: number | null
           id?: string
+          language?: string | null
+          language_mix?: Json | null
+          organization_id?: string | null
+          pii_entities?: Json | null
+          redacted_audio_mode?: string | null
+          redacted_audio_path?: string | null
+          requested_call_type?: string | null
+          rubric_id?: string | null
+          rubric_version?: number | null
+          segment_languages?: Json | null
+          segments?: Json | null
+          status?: string
+          stt_provider?: string | null
           transcript?: string | null
           updated_at?: string
           user_id?: string | null
+          words?: Json | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "transcriptions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transcriptions_rubric_id_fkey"
+            columns: ["rubric_id"]
+            isOneToOne: false
+            referencedRelation: "rubrics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      usage_events: {
+        Row: {
+          audio_file_path: string | null
+          audio_seconds: number
+          created_at: string
+          id: string
+          organization_id: string | null
+          transcription_id: string | null
+          user_id: string
+        }
+        Insert: {
+          audio_file_path?: string | null
+          audio_seconds?: number
+          created_at?: string
+          id?: string
+          organization_id?: string | null
+          transcription_id?: string | null
+          user_id: string
+        }
+        Update: {
+          audio_file_path?: string | null
+          audio_seconds?: number
+          created_at?: string
+          id?: string
+          organization_id?: string | null
+          transcription_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_events_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "usage_events_transcription_id_fkey"
+            columns: ["transcription_id"]
+            isOneToOne: false
+            referencedRelation: "transcriptions"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      can_view_unredacted: {
+        Args: { target_transcription_id: string }
+        Returns: boolean
+      }
+      get_usage_totals: {
+        Args: { for_organization_id: string; for_user_id: string }
+        Returns: Json
+      }
+      is_organization_member: {
+        Args: { org_id: string; roles?: string[] }
+        Returns: boolean
+      }
+      reserve_usage: {
+        Args: {
+          for_organization_id: string
+          for_user_id: string
+          organization_limits: Json
+          user_limits: Json
+        }
+        Returns: Json
+      }
+      usage_totals: {
+        Args: { scope: string; scope_id: string }
+        Returns: Json
+      }
+      usage_within_limits: {
+        Args: { limits: Json; totals: Json }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
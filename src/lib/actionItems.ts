@@ -0,0 +1,97 @@
+import { supabase } from "@/integrations/supabase/client";
+import { requireUserId } from "@/lib/auth";
+import { ActionItemOwner } from "@/types/transcription";
+
+// A stored action item, with the call it came from
+export interface ActionItemRecord {
+  id: string;
+  transcriptionId: string;
+  owner: ActionItemOwner;
+  description: string;
+  dueText: string | null;
+  dueDate: string | null; // YYYY-MM-DD
+  segmentId: number;
+  segmentStart: number;
+  completedAt: string | null;
+  call: { fileName: string; createdAt: string } | null;
+}
+
+export const ACTION_ITEM_OWNER_LABELS: Record<ActionItemOwner, string> = {
+  agent: "Agent",
+  customer: "Customer"
+};
+
+const ACTION_ITEM_COLUMNS =
+  "id, transcription_id, owner, description, due_text, due_date, segment_id, segment_start, completed_at, transcriptions(file_name, created_at)";
+
+type ActionItemRow = {
+  id: string;
+  transcription_id: string;
+  owner: string;
+  description: string;
+  due_text: string | null;
+  due_date: string | null;
+  segment_id: number;
+  segment_start: number;
+  completed_at: string | null;
+  transcriptions: { file_name: string; created_at: string } | null;
+};
+
+const toRecord = (row: ActionItemRow): ActionItemRecord => ({
+  id: row.id,
+  transcriptionId: row.transcription_id,
+  owner: row.owner as ActionItemOwner,
+  description: row.description,
+  dueText: row.due_text,
+  dueDate: row.due_date,
+  segmentId: row.segment_id,
+  segmentStart: row.segment_start,
+  completedAt: row.completed_at,
+  call: row.transcriptions && { fileName: row.transcriptions.file_name, createdAt: row.transcriptions.created_at }
+});
+
+// Due dates are calendar days, so compare against today's date rather than the current instant
+export const isOverdue = (item: ActionItemRecord) =>
+  !item.completedAt && item.dueDate !== null && item.dueDate < new Date().toLocaleDateString("en-CA");
+
+export const formatDueDate = (dueDate: string) =>
+  new Date(`${dueDate}T00:00:00`).toLocaleDateString(undefined, { weekday: "short", day: "numeric", month: "short" });
+
+// Every item for the signed-in user, or just one call's. Members can also read
+// their colleagues' items, so the task list filters to the user's own.
+// Undated items sort last.
+export const fetchActionItems = async (transcriptionId?: string): Promise<ActionItemRecord[]> => {
+  let query = supabase
+    .from("action_items")
+    .select(ACTION_ITEM_COLUMNS)
+    .order("due_date", { ascending: true, nullsFirst: false })
+    .order("created_at", { ascending: true });
+  query = transcriptionId
+    ? query.eq("transcription_id", transcriptionId)
+    : query.eq("user_id", await requireUserId());
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(error.message || "Failed to load action items");
+  }
+
+  return data.map(toRecord);
+};
+
+export const setActionItemDone = async (id: string, done: boolean): Promise<string | null> => {
+  const completedAt = done ? new Date().toISOString() : null;
+  const { data, error } = await supabase
+    .from("action_items")
+    .update({ completed_at: completedAt })
+    .eq("id", id)
+    .select("id");
+
+  if (error) {
+    throw new Error(error.message || "Failed to update action item");
+  }
+  if (!data?.length) {
+    throw new Error("You do not have permission to update this action item");
+  }
+
+  return completedAt;
+};
@@ -0,0 +1,29 @@
+import { supabase } from "@/integrations/supabase/client";
+import { AudioRedactionMode } from "@/types/transcription";
+
+export const AUDIO_REDACTION_MODE_LABELS: Record<AudioRedactionMode, string> = {
+  tone: "Bleep",
+  silence: "Silence"
+};
+
+export interface RedactedAudio {
+  mode: AudioRedactionMode; // MP3 recordings are always silenced
+  url: string | null;
+}
+
+// The worker stores a bleeped copy next to the original after transcription;
+// this re-renders it server-side in another mode
+export const recreateRedactedAudio = async (
+  transcriptionId: string,
+  mode: AudioRedactionMode
+): Promise<RedactedAudio> => {
+  const { data, error } = await supabase.functions.invoke("redacted-audio", {
+    body: { id: transcriptionId, mode }
+  });
+
+  if (error) {
+    throw new Error(error.message || "Could not create the redacted recording");
+  }
+
+  return { mode: data.redactedAudioMode, url: data.redactedAudioUrl };
+};
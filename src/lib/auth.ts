@@ -0,0 +1,45 @@
+import { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+
+// Anonymous sessions from before sign-in was required are treated as signed out;
+// the edge functions reject them too
+export const isSignedIn = (session: Session | null) => !!session?.user && !session.user.is_anonymous;
+
+// Storage policies on `audio-files` and the edge functions key everything by
+// the signed-in user, so uploads and writes need an account
+export const requireUserId = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!isSignedIn(session)) {
+    throw new Error("Sign in to continue");
+  }
+
+  return session.user.id;
+};
+
+export const signIn = async (email: string, password: string) => {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  if (error) {
+    throw new Error(error.message || "Could not sign in");
+  }
+};
+
+// Returns false when the project requires the address to be confirmed first
+export const signUp = async (email: string, password: string): Promise<boolean> => {
+  const { data, error } = await supabase.auth.signUp({
+    email,
+    password,
+    options: { emailRedirectTo: window.location.origin }
+  });
+  if (error) {
+    throw new Error(error.message || "Could not create the account");
+  }
+
+  return !!data.session;
+};
+
+export const signOut = async () => {
+  const { error } = await supabase.auth.signOut();
+  if (error) {
+    throw new Error(error.message || "Could not sign out");
+  }
+};
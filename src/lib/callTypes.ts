@@ -0,0 +1,35 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TranscriptionData } from "@/types/transcription";
+import { CallType, callTypeSchema } from "@/types/rubricSchema";
+
+export const CALL_TYPES = callTypeSchema.options;
+
+export const CALL_TYPE_LABELS: Record<CallType, string> = {
+  sales: "Sales",
+  support: "Support",
+  consultation: "Consultation",
+  inquiry: "Inquiry",
+  complaint: "Complaint",
+  "follow-up": "Follow-up"
+};
+
+// A reviewer's correction takes precedence over what the analysis detected
+export const getEffectiveCallType = (transcription: TranscriptionData): CallType | null =>
+  transcription.callTypeOverride || transcription.analysis?.callType?.type || null;
+
+// RLS filters out calls the user may not edit, which PostgREST reports as a
+// successful update of nothing; ask for the row back to tell the difference
+export const saveCallTypeOverride = async (id: string, callType: CallType | null) => {
+  const { data, error } = await supabase
+    .from("transcriptions")
+    .update({ call_type_override: callType })
+    .eq("id", id)
+    .select("id");
+
+  if (error) {
+    throw new Error(error.message || "Failed to update call type");
+  }
+  if (!data?.length) {
+    throw new Error("You do not have permission to change this call's type");
+  }
+};
@@ -0,0 +1,58 @@
+import { supabase } from "@/integrations/supabase/client";
+import { ComplianceRule, complianceRulesSchema } from "@/types/complianceSchema";
+import { ComplianceStatus, ComplianceWindow, TranscriptionData } from "@/types/transcription";
+
+export interface ComplianceRuleSet {
+  rules: ComplianceRule[];
+  version: number | null; // null until the organization saves its first rules
+  updatedAt: string | null;
+}
+
+export const COMPLIANCE_STATUS_LABELS: Record<ComplianceStatus, string> = {
+  passed: "Compliant",
+  failed: "Non-compliant"
+};
+
+export const formatComplianceWindow = (window: ComplianceWindow) =>
+  `${window.anchor === "start" ? "within the first" : "within the last"} ${window.seconds} seconds`;
+
+// Calls analysed before their organization had rules were never checked
+export const getComplianceStatus = (transcription: TranscriptionData): ComplianceStatus | null =>
+  transcription.compliance?.status ?? null;
+
+export const fetchComplianceRules = async (organizationId: string): Promise<ComplianceRuleSet> => {
+  const { data, error } = await supabase
+    .from("compliance_rule_sets")
+    .select("rules, version, updated_at")
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message || "Failed to load compliance rules");
+  }
+  if (!data) {
+    return { rules: [], version: null, updatedAt: null };
+  }
+
+  const rules = complianceRulesSchema.safeParse(data.rules);
+  return {
+    rules: rules.success ? rules.data : [],
+    version: data.version,
+    updatedAt: data.updated_at
+  };
+};
+
+// The database bumps the version whenever the rules change
+export const saveComplianceRules = async (organizationId: string, rules: ComplianceRule[]): Promise<ComplianceRuleSet> => {
+  const { data, error } = await supabase
+    .from("compliance_rule_sets")
+    .upsert({ organization_id: organizationId, rules })
+    .select("rules, version, updated_at")
+    .single();
+
+  if (error) {
+    throw new Error(error.message || "Failed to save compliance rules");
+  }
+
+  return { rules, version: data.version, updatedAt: data.updated_at };
+};
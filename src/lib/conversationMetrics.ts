@@ -0,0 +1,166 @@
+// Deterministic conversation metrics computed from speaker-labelled,
+// timestamped segments. Kept free of imports so the `transcribe-audio` worker
+// can load it under Deno as well as the app under Vite.
+
+// A pause between segments at least this long counts as a silence
+export const SILENCE_GAP_SECONDS = 2;
+// Overlapping speech shorter than this is treated as a backchannel ("mm-hm"),
+// not an interruption
+export const INTERRUPTION_MIN_OVERLAP_SECONDS = 0.5;
+
+export interface TimedSegment {
+  speakerId: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SpeakerMetrics {
+  speakerId: string;
+  talkSeconds: number;
+  talkShare: number; // 0-1 of all speech in the call
+  talkListenRatio: number | null; // own talk time over everyone else's; null when nobody else spoke
+  turns: number;
+  longestTurnSeconds: number;
+  wordCount: number;
+  wordsPerMinute: number | null; // null when the speaker never spoke
+  interruptionsMade: number;
+}
+
+export interface TimeSpan {
+  start: number;
+  end: number;
+  durationSeconds: number;
+}
+
+export interface Monologue extends TimeSpan {
+  speakerId: string;
+}
+
+export interface ConversationMetrics {
+  durationSeconds: number;
+  totalTalkSeconds: number;
+  turnCount: number;
+  speakers: SpeakerMetrics[];
+  longestMonologue: Monologue | null;
+  overlapCount: number;
+  interruptionCount: number;
+  silences: TimeSpan[];
+  deadAirSeconds: number;
+  longestSilenceSeconds: number;
+}
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Consecutive segments from the same speaker form one turn
+const toTurns = (segments: TimedSegment[]): Monologue[] => {
+  const turns: Monologue[] = [];
+  for (const segment of segments) {
+    const last = turns[turns.length - 1];
+    if (last && last.speakerId === segment.speakerId) {
+      last.end = Math.max(last.end, segment.end);
+      last.durationSeconds = last.end - last.start;
+    } else {
+      turns.push({
+        speakerId: segment.speakerId,
+        start: segment.start,
+        end: segment.end,
+        durationSeconds: segment.end - segment.start,
+      });
+    }
+  }
+  return turns;
+};
+
+// Speech-to-text returns segments in order, but overlapping speech from a
+// second channel can arrive out of order, so sort by start time first.
+export const computeConversationMetrics = (
+  segments: TimedSegment[],
+  durationSeconds: number
+): ConversationMetrics => {
+  const ordered = [...segments]
+    .filter(segment => segment.end > segment.start)
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+  const turns = toTurns(ordered);
+
+  const talkBySpeaker = new Map<string, number>();
+  const wordsBySpeaker = new Map<string, number>();
+  for (const segment of ordered) {
+    talkBySpeaker.set(segment.speakerId, (talkBySpeaker.get(segment.speakerId) || 0) + segment.end - segment.start);
+    wordsBySpeaker.set(segment.speakerId, (wordsBySpeaker.get(segment.speakerId) || 0) + countWords(segment.text));
+  }
+  const totalTalkSeconds = [...talkBySpeaker.values()].reduce((sum, seconds) => sum + seconds, 0);
+
+  // An overlap is a new speaker starting before the previous turn has ended
+  let overlapCount = 0;
+  let interruptionCount = 0;
+  const interruptionsBySpeaker = new Map<string, number>();
+  for (let i = 1; i < turns.length; i++) {
+    const overlap = Math.min(turns[i - 1].end, turns[i].end) - turns[i].start;
+    if (overlap <= 0) continue;
+    overlapCount++;
+    if (overlap >= INTERRUPTION_MIN_OVERLAP_SECONDS) {
+      interruptionCount++;
+      interruptionsBySpeaker.set(turns[i].speakerId, (interruptionsBySpeaker.get(turns[i].speakerId) || 0) + 1);
+    }
+  }
+
+  // Silences are measured against the furthest point any speech has reached,
+  // so a gap after a long turn is not hidden by a shorter overlapping one.
+  // The wait before the first words and the tail after the last are dead air
+  // too, so the gaps run from the start of the recording to its end.
+  const silences: TimeSpan[] = [];
+  const addSilence = (start: number, end: number) => {
+    if (end - start >= SILENCE_GAP_SECONDS) {
+      silences.push({ start: round(start), end: round(end), durationSeconds: round(end - start) });
+    }
+  };
+  let speechEnd = 0;
+  for (const segment of ordered) {
+    addSilence(speechEnd, segment.start);
+    speechEnd = Math.max(speechEnd, segment.end);
+  }
+  addSilence(speechEnd, durationSeconds);
+
+  const speakers: SpeakerMetrics[] = [...talkBySpeaker.entries()].map(([speakerId, talkSeconds]) => {
+    const speakerTurns = turns.filter(turn => turn.speakerId === speakerId);
+    const othersSeconds = totalTalkSeconds - talkSeconds;
+    const wordCount = wordsBySpeaker.get(speakerId) || 0;
+    return {
+      speakerId,
+      talkSeconds: round(talkSeconds),
+      talkShare: totalTalkSeconds ? round(talkSeconds / totalTalkSeconds, 3) : 0,
+      talkListenRatio: othersSeconds > 0 ? round(talkSeconds / othersSeconds) : null,
+      turns: speakerTurns.length,
+      longestTurnSeconds: round(Math.max(0, ...speakerTurns.map(turn => turn.durationSeconds))),
+      wordCount,
+      wordsPerMinute: talkSeconds > 0 ? Math.round(wordCount / (talkSeconds / 60)) : null,
+      interruptionsMade: interruptionsBySpeaker.get(speakerId) || 0,
+    };
+  });
+
+  const longest = turns.reduce<Monologue | null>(
+    (best, turn) => (!best || turn.durationSeconds > best.durationSeconds ? turn : best),
+    null
+  );
+
+  return {
+    durationSeconds: round(durationSeconds),
+    totalTalkSeconds: round(totalTalkSeconds),
+    turnCount: turns.length,
+    speakers: speakers.sort((a, b) => b.talkSeconds - a.talkSeconds),
+    longestMonologue: longest && {
+      speakerId: longest.speakerId,
+      start: round(longest.start),
+      end: round(longest.end),
+      durationSeconds: round(longest.durationSeconds),
+    },
+    overlapCount,
+    interruptionCount,
+    silences,
+    deadAirSeconds: round(silences.reduce((sum, silence) => sum + silence.durationSeconds, 0)),
+    longestSilenceSeconds: round(Math.max(0, ...silences.map(silence => silence.durationSeconds))),
+  };
+};
@@ -0,0 +1,86 @@
+import { CallAnalysis, CallEntity, EntityType } from "@/types/transcription";
+import { formatTimestamp } from "@/lib/format";
+import { getSpeaker } from "@/lib/speakers";
+
+export const ENTITY_TYPES: EntityType[] = ["product", "price", "date", "order_id", "competitor", "location"];
+
+export const ENTITY_TYPE_LABELS: Record<EntityType, string> = {
+  product: "Product",
+  price: "Price",
+  date: "Date",
+  order_id: "Order/ticket",
+  competitor: "Competitor",
+  location: "Location"
+};
+
+export const ENTITY_TYPE_STYLES: Record<EntityType, string> = {
+  product: "border-blue-300 bg-blue-50 text-blue-800 dark:border-blue-800 dark:bg-blue-950 dark:text-blue-200",
+  price: "border-green-300 bg-green-50 text-green-800 dark:border-green-800 dark:bg-green-950 dark:text-green-200",
+  date: "border-violet-300 bg-violet-50 text-violet-800 dark:border-violet-800 dark:bg-violet-950 dark:text-violet-200",
+  order_id: "border-slate-300 bg-slate-50 text-slate-800 dark:border-slate-700 dark:bg-slate-900 dark:text-slate-200",
+  competitor: "border-red-300 bg-red-50 text-red-800 dark:border-red-800 dark:bg-red-950 dark:text-red-200",
+  location: "border-amber-300 bg-amber-50 text-amber-800 dark:border-amber-800 dark:bg-amber-950 dark:text-amber-200"
+};
+
+// Prices are shown in their currency; everything else as normalized by the analysis
+export const formatEntityValue = (entity: CallEntity) => {
+  if (entity.type === "price" && entity.currency && !Number.isNaN(Number(entity.value))) {
+    try {
+      return new Intl.NumberFormat(undefined, { style: "currency", currency: entity.currency }).format(Number(entity.value));
+    } catch {
+      return `${entity.value} ${entity.currency}`;
+    }
+  }
+  return entity.value;
+};
+
+export const indexEntitiesBySegment = (entities: CallEntity[]) =>
+  entities.reduce((groups, entity) => {
+    groups.set(entity.segmentId, [...(groups.get(entity.segmentId) || []), entity]);
+    return groups;
+  }, new Map<number, CallEntity[]>());
+
+// A value mentioned several times is listed once, at its first mention
+export const uniqueEntities = (entities: CallEntity[]) => {
+  const seen = new Set<string>();
+  return entities.filter(entity => {
+    const key = `${entity.type}:${formatEntityValue(entity).toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+export const matchesEntitySearch = (analysis: CallAnalysis | undefined, term: string) => {
+  const needle = term.toLowerCase();
+  return (analysis?.entities || []).some(entity =>
+    entity.text.toLowerCase().includes(needle) || entity.value.toLowerCase().includes(needle)
+  );
+};
+
+// Mentions come from call audio and model output; a leading =, +, -, @ or tab
+// would run as a formula in a spreadsheet, so such cells are quoted as text
+const escapeCsv = (value: string) => {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per mention, for spreadsheets and CRM imports
+export const entitiesToCsv = (analysis: CallAnalysis) => {
+  const segmentById = new Map(analysis.transcript.map(segment => [segment.id, segment]));
+  const rows = (analysis.entities || []).map(entity => {
+    const segment = segmentById.get(entity.segmentId);
+    return [
+      ENTITY_TYPE_LABELS[entity.type],
+      entity.value,
+      entity.currency || "",
+      entity.text,
+      segment ? formatTimestamp(segment.start) : "",
+      segment ? getSpeaker(analysis, segment.speakerId)?.label || segment.speakerId : ""
+    ];
+  });
+
+  return [["Type", "Value", "Currency", "Mention", "Time", "Speaker"], ...rows]
+    .map(row => row.map(escapeCsv).join(","))
+    .join("\n");
+};
@@ -0,0 +1,10 @@
+// Formats an offset in seconds as m:ss, or h:mm:ss for calls over an hour
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const mins = Math.floor((total % 3600) / 60);
+  const secs = (total % 60).toString().padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${mins.toString().padStart(2, '0')}:${secs}`
+    : `${mins}:${secs}`;
+};
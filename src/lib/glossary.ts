@@ -0,0 +1,45 @@
+import { supabase } from "@/integrations/supabase/client";
+import { GlossaryTerm, glossaryTermsSchema } from "@/types/glossarySchema";
+
+export interface Glossary {
+  terms: GlossaryTerm[];
+  version: number | null; // null until the organization saves its first glossary
+  updatedAt: string | null;
+}
+
+export const fetchGlossary = async (organizationId: string): Promise<Glossary> => {
+  const { data, error } = await supabase
+    .from("glossaries")
+    .select("terms, version, updated_at")
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message || "Failed to load glossary");
+  }
+  if (!data) {
+    return { terms: [], version: null, updatedAt: null };
+  }
+
+  const terms = glossaryTermsSchema.safeParse(data.terms);
+  return {
+    terms: terms.success ? terms.data : [],
+    version: data.version,
+    updatedAt: data.updated_at
+  };
+};
+
+// The database bumps the version whenever the terms change
+export const saveGlossary = async (organizationId: string, terms: GlossaryTerm[]): Promise<Glossary> => {
+  const { data, error } = await supabase
+    .from("glossaries")
+    .upsert({ organization_id: organizationId, terms })
+    .select("terms, version, updated_at")
+    .single();
+
+  if (error) {
+    throw new Error(error.message || "Failed to save glossary");
+  }
+
+  return { terms, version: data.version, updatedAt: data.updated_at };
+};
@@ -0,0 +1,26 @@
+import { LanguageShare, SegmentLanguage } from "@/types/transcription";
+
+export type TranscriptView = "original" | "translation" | "both";
+
+const languageNames = new Intl.DisplayNames(["en"], { type: "language" });
+
+export const getLanguageName = (code: string) => {
+  try {
+    return languageNames.of(code) || code.toUpperCase();
+  } catch {
+    return code.toUpperCase();
+  }
+};
+
+export const formatLanguageShares = (languages: LanguageShare[]) =>
+  languages
+    .filter(language => language.share >= 0.01)
+    .map(language => `${getLanguageName(language.code)} ${Math.round(language.share * 100)}%`)
+    .join(", ");
+
+// Short tag for a segment, e.g. "HI·EN" for code-mixed speech
+export const formatSegmentLanguages = (tag: SegmentLanguage) =>
+  tag.languages.map(language => language.code.toUpperCase()).join("·");
+
+export const indexSegmentLanguages = (tags: SegmentLanguage[] = []) =>
+  new Map(tags.map(tag => [tag.segmentId, tag]));
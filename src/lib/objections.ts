@@ -0,0 +1,38 @@
+import { ObjectionCategory, ObjectionHandling, TranscriptionData } from "@/types/transcription";
+
+export const OBJECTION_CATEGORIES: ObjectionCategory[] = ["price", "timing", "authority", "competitor", "trust", "need", "other"];
+
+export const OBJECTION_CATEGORY_LABELS: Record<ObjectionCategory, string> = {
+  price: "Price",
+  timing: "Timing",
+  authority: "Authority",
+  competitor: "Competitor",
+  trust: "Trust",
+  need: "Need",
+  other: "Other"
+};
+
+export const OBJECTION_HANDLING_LABELS: Record<ObjectionHandling, string> = {
+  handled: "Handled",
+  partial: "Partially handled",
+  unhandled: "Unhandled"
+};
+
+export type ObjectionFrequency = { category: string } & Record<ObjectionHandling, number>;
+
+// Objections per category across calls, split by how they were handled.
+// Categories nobody raised are left out.
+export const countObjections = (transcriptions: TranscriptionData[]): ObjectionFrequency[] => {
+  const counts = new Map<ObjectionCategory, ObjectionFrequency>();
+
+  for (const transcription of transcriptions) {
+    for (const objection of transcription.analysis?.objections || []) {
+      const row = counts.get(objection.category)
+        || { category: OBJECTION_CATEGORY_LABELS[objection.category], handled: 0, partial: 0, unhandled: 0 };
+      row[objection.handling]++;
+      counts.set(objection.category, row);
+    }
+  }
+
+  return OBJECTION_CATEGORIES.filter(category => counts.has(category)).map(category => counts.get(category)!);
+};
@@ -0,0 +1,39 @@
+import { supabase } from "@/integrations/supabase/client";
+import { requireUserId } from "@/lib/auth";
+
+export type OrganizationRole = "owner" | "admin" | "member";
+
+export interface Organization {
+  id: string;
+  name: string;
+  role: OrganizationRole;
+}
+
+// Mirrors the worker: uploads belong to the user's oldest membership, which
+// is the personal organization created on sign-up.
+export const fetchCurrentOrganization = async (): Promise<Organization> => {
+  const userId = await requireUserId();
+  const { data, error } = await supabase
+    .from("organization_members")
+    .select("role, organizations(id, name)")
+    .eq("user_id", userId)
+    .order("created_at")
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message || "Failed to load organization");
+  }
+  if (!data?.organizations) {
+    throw new Error("You are not a member of any organization");
+  }
+
+  return {
+    id: data.organizations.id,
+    name: data.organizations.name,
+    role: data.role as OrganizationRole
+  };
+};
+
+export const canManageOrganization = (organization: Organization) =>
+  organization.role === "owner" || organization.role === "admin";
@@ -0,0 +1,59 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PiiEntity, PiiType, UnredactedTranscript } from "@/types/transcription";
+import { REDACTION_MARKER_PATTERN, piiTypeSchema } from "@/types/piiSchema";
+
+export const PII_TYPE_LABELS: Record<PiiType, string> = {
+  card_number: "Card number",
+  phone: "Phone number",
+  email: "Email",
+  aadhaar: "Aadhaar",
+  pan: "PAN",
+  otp: "OTP"
+};
+
+export type TextPart =
+  | { kind: "text"; text: string }
+  | { kind: "redacted"; type: PiiType }
+  | { kind: "pii"; text: string; type: PiiType };
+
+// Splits stored text into plain runs and redaction markers
+export const splitRedactedText = (text: string): TextPart[] => {
+  const parts: TextPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(REDACTION_MARKER_PATTERN)) {
+    const type = piiTypeSchema.safeParse(match[1]);
+    if (!type.success) continue;
+    if (match.index > last) parts.push({ kind: "text", text: text.slice(last, match.index) });
+    parts.push({ kind: "redacted", type: type.data });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) parts.push({ kind: "text", text: text.slice(last) });
+  return parts;
+};
+
+// Splits original segment text around the detected values so they can be highlighted
+export const splitUnredactedText = (text: string, entities: PiiEntity[]): TextPart[] => {
+  const parts: TextPart[] = [];
+  let last = 0;
+  for (const entity of [...entities].sort((a, b) => a.start - b.start)) {
+    if (entity.start < last) continue;
+    if (entity.start > last) parts.push({ kind: "text", text: text.slice(last, entity.start) });
+    parts.push({ kind: "pii", text: text.slice(entity.start, entity.end), type: entity.type });
+    last = entity.end;
+  }
+  if (last < text.length) parts.push({ kind: "text", text: text.slice(last) });
+  return parts;
+};
+
+// Only succeeds for members allowed to see personal data; everyone else gets a 403
+export const fetchUnredactedTranscript = async (id: string): Promise<UnredactedTranscript> => {
+  const { data, error } = await supabase.functions.invoke("transcription-status", {
+    body: { id, unredacted: true }
+  });
+
+  if (error || !data?.unredacted) {
+    throw new Error(error?.message || "Unredacted transcript is not available");
+  }
+
+  return data.unredacted;
+};
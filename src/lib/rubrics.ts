@@ -0,0 +1,88 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { requireUserId } from "@/lib/auth";
+import { CallType, RubricCategory, callTypeSchema, rubricCategoriesSchema } from "@/types/rubricSchema";
+
+export interface Rubric {
+  id: string;
+  name: string;
+  description: string;
+  callType: CallType | null;
+  categories: RubricCategory[];
+  version: number;
+  isDefault: boolean;
+  builtIn: boolean;
+  updatedAt: string;
+}
+
+export type RubricDraft = Pick<Rubric, "name" | "description" | "callType" | "categories" | "isDefault">;
+
+const RUBRIC_COLUMNS = "id, user_id, name, description, call_type, categories, version, is_default, updated_at";
+
+type RubricRow = Pick<
+  Tables<"rubrics">,
+  "id" | "user_id" | "name" | "description" | "call_type" | "categories" | "version" | "is_default" | "updated_at"
+>;
+
+const toRubric = (row: RubricRow): Rubric => {
+  const categories = rubricCategoriesSchema.safeParse(row.categories);
+  const callType = callTypeSchema.safeParse(row.call_type);
+
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description || "",
+    callType: callType.success ? callType.data : null,
+    categories: categories.success ? categories.data : [],
+    version: row.version,
+    isDefault: row.is_default,
+    builtIn: row.user_id === null,
+    updatedAt: row.updated_at
+  };
+};
+
+// Built-in rubrics are listed after the user's own, matching how the worker
+// resolves which rubric scores a call.
+export const fetchRubrics = async (): Promise<Rubric[]> => {
+  const { data, error } = await supabase
+    .from("rubrics")
+    .select(RUBRIC_COLUMNS)
+    .order("user_id", { nullsFirst: false })
+    .order("name");
+
+  if (error) {
+    throw new Error(error.message || "Failed to load rubrics");
+  }
+
+  return data.map(toRubric);
+};
+
+export const saveRubric = async (draft: RubricDraft, id?: string): Promise<Rubric> => {
+  const fields = {
+    name: draft.name.trim(),
+    description: draft.description.trim() || null,
+    call_type: draft.callType,
+    categories: draft.categories,
+    is_default: draft.isDefault
+  };
+
+  const query = id
+    ? supabase.from("rubrics").update(fields).eq("id", id)
+    : supabase.from("rubrics").insert({ ...fields, user_id: await requireUserId() });
+
+  const { data, error } = await query.select(RUBRIC_COLUMNS).single();
+
+  if (error) {
+    throw new Error(error.message || "Failed to save rubric");
+  }
+
+  return toRubric(data);
+};
+
+export const deleteRubric = async (id: string) => {
+  const { error } = await supabase.from("rubrics").delete().eq("id", id);
+
+  if (error) {
+    throw new Error(error.message || "Failed to delete rubric");
+  }
+};
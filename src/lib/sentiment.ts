@@ -0,0 +1,75 @@
+import { CallAnalysis, SentimentLabel, SpeakerSegment } from "@/types/transcription";
+
+// A customer segment at or below this score is highlighted as a dip
+export const SENTIMENT_DIP_THRESHOLD = -0.3;
+// The start and end of the call are each averaged over up to this many customer segments
+const DELTA_WINDOW_SEGMENTS = 3;
+
+export const SENTIMENT_LABELS: Record<SentimentLabel, string> = {
+  positive: "Positive",
+  neutral: "Neutral",
+  negative: "Negative"
+};
+
+// One row per scored segment; each speaker's score sits under their id, so
+// every speaker gets their own line on a shared time axis
+export interface SentimentPoint {
+  segmentId: number;
+  time: number;
+  [speakerId: string]: number;
+}
+
+export interface SentimentDelta {
+  start: number;
+  end: number;
+  delta: number;
+}
+
+type ScoredSegment = SpeakerSegment & { sentiment: NonNullable<SpeakerSegment["sentiment"]> };
+
+const scoredSegments = (analysis: CallAnalysis): ScoredSegment[] =>
+  analysis.transcript.filter((segment): segment is ScoredSegment => segment.sentiment != null);
+
+const customerSegments = (analysis: CallAnalysis) => {
+  const customerIds = new Set(analysis.speakers.filter(speaker => speaker.role === "customer").map(speaker => speaker.id));
+  return scoredSegments(analysis).filter(segment => customerIds.has(segment.speakerId));
+};
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Calls analysed before sentiment was scored have nothing to chart
+export const hasSentiment = (analysis: CallAnalysis) => scoredSegments(analysis).length > 0;
+
+export const buildSentimentSeries = (analysis: CallAnalysis): SentimentPoint[] =>
+  scoredSegments(analysis).map(segment => ({
+    segmentId: segment.id,
+    time: segment.start,
+    [segment.speakerId]: segment.sentiment.score
+  }) as SentimentPoint);
+
+// Customer segments that are below the threshold and lower than the customer's
+// segments either side, i.e. the bottom of each dip rather than every point in it
+export const findSentimentDips = (analysis: CallAnalysis): ScoredSegment[] => {
+  const segments = customerSegments(analysis);
+
+  return segments.filter((segment, index) => {
+    const score = segment.sentiment.score;
+    const previous = segments[index - 1]?.sentiment.score ?? Infinity;
+    const next = segments[index + 1]?.sentiment.score ?? Infinity;
+    return score <= SENTIMENT_DIP_THRESHOLD && score <= previous && score < next;
+  });
+};
+
+// How the customer felt at the end of the call compared with the start.
+// Null when fewer than two customer segments were scored.
+export const getCustomerSentimentDelta = (analysis: CallAnalysis): SentimentDelta | null => {
+  const scores = customerSegments(analysis).map(segment => segment.sentiment.score);
+  if (scores.length < 2) return null;
+
+  const window = Math.min(DELTA_WINDOW_SEGMENTS, Math.floor(scores.length / 2));
+  const start = average(scores.slice(0, window));
+  const end = average(scores.slice(-window));
+  return { start, end, delta: end - start };
+};
+
+export const formatSentimentScore = (score: number) => `${score > 0 ? "+" : ""}${score.toFixed(2)}`;
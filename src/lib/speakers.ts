@@ -0,0 +1,25 @@
+import { CallAnalysis, Speaker, SpeakerRole } from "@/types/transcription";
+
+export const SPEAKER_ROLE_LABELS: Record<SpeakerRole, string> = {
+  agent: "Agent",
+  customer: "Customer",
+  supervisor: "Supervisor",
+  ivr: "IVR",
+  other: "Other"
+};
+
+export const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+export const getSpeaker = (analysis: CallAnalysis, speakerId: string): Speaker | undefined =>
+  analysis.speakers.find(speaker => speaker.id === speakerId);
+
+// Anomalies for every speaker with the given role, e.g. both agents on a warm transfer
+export const getAnomaliesForRole = (analysis: CallAnalysis, role: SpeakerRole) => {
+  const speakerIds = new Set(analysis.speakers.filter(speaker => speaker.role === role).map(speaker => speaker.id));
+  const anomalies = analysis.anomalies.filter(entry => speakerIds.has(entry.speakerId));
+
+  return {
+    positive: anomalies.flatMap(entry => entry.positive),
+    negative: anomalies.flatMap(entry => entry.negative)
+  };
+};
@@ -0,0 +1,18 @@
+import { CrmNote, TranscriptionData } from "@/types/transcription";
+
+// Plain text with labelled lines, which pastes cleanly into CRM activity fields
+export const formatCrmNote = (note: CrmNote) => [
+  `Reason for call: ${note.reason}`,
+  `Resolution: ${note.resolution}`,
+  note.nextSteps.length > 0
+    ? `Next steps:\n${note.nextSteps.map(step => `- ${step}`).join("\n")}`
+    : "Next steps: none"
+].join("\n");
+
+const truncateText = (text: string, maxLength: number) =>
+  text.length <= maxLength ? text : `${text.substring(0, maxLength)}...`;
+
+// Calls analysed before summaries were generated fall back to the start of the transcript
+export const getCallHeadline = (transcription: TranscriptionData, maxLength = 150) =>
+  transcription.analysis?.summaries?.headline
+    || truncateText(transcription.transcript || "No transcript available", maxLength);
@@ -0,0 +1,78 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TranscriptionData, TranscriptionJobResponse, TranscriptionStatus } from "@/types/transcription";
+
+export const JOB_POLL_INTERVAL_MS = 3000;
+
+const JOB_IDS_STORAGE_KEY = "vocalytics.transcriptionJobIds";
+const MAX_REMEMBERED_JOBS = 50;
+
+export const isJobActive = (status: TranscriptionStatus) =>
+  status === "queued" || status === "transcribing" || status === "analyzing";
+
+export const getStatusLabel = (status: TranscriptionStatus) => {
+  switch (status) {
+    case "queued": return "Queued";
+    case "transcribing": return "Transcribing";
+    case "analyzing": return "Analyzing";
+    case "completed": return "Completed";
+    case "failed": return "Failed";
+  }
+};
+
+export const fetchTranscriptionJob = async (id: string): Promise<TranscriptionJobResponse> => {
+  const { data, error } = await supabase.functions.invoke("transcription-status", {
+    body: { id }
+  });
+
+  if (error) {
+    throw new Error(error.message || "Failed to fetch transcription status");
+  }
+
+  return data;
+};
+
+export const toTranscriptionData = (job: TranscriptionJobResponse): TranscriptionData => ({
+  id: job.id,
+  transcript: job.transcript,
+  timestamp: job.createdAt,
+  anomalies: job.anomalies,
+  suggestions: job.suggestions,
+  duration: job.duration,
+  status: job.status,
+  analysis: job.analysis || undefined,
+  analysisFailure: job.analysisFailure || undefined,
+  rubric: job.rubric || undefined,
+  callTypeOverride: job.callTypeOverride || undefined,
+  agentSide: job.agentSide || undefined,
+  segmentLanguages: job.segmentLanguages || undefined,
+  languageMix: job.languageMix || undefined,
+  glossaryVersion: job.glossaryVersion || undefined,
+  piiEntities: job.piiEntities || undefined,
+  conversationMetrics: job.conversationMetrics || undefined,
+  compliance: job.compliance || undefined,
+  canViewUnredacted: job.canViewUnredacted,
+  fileName: job.fileName,
+  audioUrl: job.audioUrl || undefined,
+  audioRedacted: job.audioRedacted,
+  redactedAudioMode: job.redactedAudioMode || undefined,
+  error: job.error || undefined
+});
+
+// Job ids are kept in localStorage so in-flight and finished calls survive a
+// closed tab or a reload; the rows themselves live in `public.transcriptions`.
+export const getRememberedJobIds = (): string[] => {
+  try {
+    const stored = localStorage.getItem(JOB_IDS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const rememberJobId = (id: string) => {
+  const ids = [id, ...getRememberedJobIds().filter(existing => existing !== id)];
+  localStorage.setItem(JOB_IDS_STORAGE_KEY, JSON.stringify(ids.slice(0, MAX_REMEMBERED_JOBS)));
+};
+
+// The list belongs to whoever is signed in on this browser
+export const forgetJobIds = () => localStorage.removeItem(JOB_IDS_STORAGE_KEY);
@@ -0,0 +1,55 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { isSignedIn } from "@/lib/auth";
+import { QuotaStatus, QuotaWindow, UsageQuota, describeQuota } from "@/lib/usageQuota";
+
+// Null while signed out; quotas belong to a user
+export const fetchUsageQuota = async (): Promise<UsageQuota | null> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!isSignedIn(session)) return null;
+
+  const { data, error } = await supabase.functions.invoke<UsageQuota>("usage-quota", { method: "GET" });
+
+  if (error) {
+    throw new Error(error.message || "Failed to load usage");
+  }
+
+  return data;
+};
+
+// The quota in a window with the least left, whether it is the user's own or
+// the organization's
+export const getTightestQuota = (quota: UsageQuota, window: QuotaWindow): QuotaStatus | undefined =>
+  quota.quotas
+    .filter(status => status.window === window)
+    .sort((a, b) => a.remaining / a.limit - b.remaining / b.limit)[0];
+
+export const getExhaustedQuota = (quota: UsageQuota) => quota.quotas.find(status => status.remaining <= 0);
+
+export const formatRetryAfter = (seconds: number) => {
+  if (seconds < 90) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  if (seconds < 90 * 60) return `${Math.ceil(seconds / 60)} minutes`;
+  if (seconds < 36 * 3600) return `${Math.ceil(seconds / 3600)} hours`;
+  return `${Math.ceil(seconds / 86400)} days`;
+};
+
+export const describeLimitReached = (quota: UsageQuota) => {
+  const exhausted = getExhaustedQuota(quota);
+  const limit = exhausted ? `You have used your ${describeQuota(exhausted)}.` : "You have reached your usage limit.";
+  return quota.retryAfterSeconds !== null
+    ? `${limit} Try again in ${formatRetryAfter(quota.retryAfterSeconds)}.`
+    : limit;
+};
+
+// `audio-upload` answers 429 with the caller's quota in the body; any other
+// failure resolves to null
+export const readQuotaExceeded = async (error: unknown): Promise<UsageQuota | null> => {
+  if (!(error instanceof FunctionsHttpError) || error.context?.status !== 429) return null;
+
+  try {
+    const body = await error.context.json();
+    return body.quota ?? null;
+  } catch {
+    return null;
+  }
+};
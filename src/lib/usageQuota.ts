@@ -0,0 +1,129 @@
+// Usage limits on the transcription endpoint. The database enforces them when
+// a request is reserved; this module is kept free of imports so the edge
+// functions can describe them under Deno with the same arithmetic the
+// uploader uses to show what is left.
+
+export type QuotaScope = "user" | "organization";
+export type QuotaWindow = "minute" | "day" | "month";
+export type QuotaUnit = "requests" | "audio_minutes";
+
+// A null limit means that quota is not enforced
+export interface UsageLimits {
+  requestsPerMinute: number | null;
+  audioMinutesPerDay: number | null;
+  audioMinutesPerMonth: number | null;
+}
+
+// Usage in each window, summed by the database (`usage_totals`). Every
+// accepted request counts; its audio once the worker knows the length.
+export interface UsageTotals {
+  requestsLastMinute: number;
+  oldestRequestAt: string | null; // oldest request within the last minute
+  audioSecondsToday: number;
+  audioSecondsThisMonth: number;
+}
+
+export interface QuotaStatus {
+  scope: QuotaScope;
+  window: QuotaWindow;
+  unit: QuotaUnit;
+  limit: number;
+  used: number;
+  remaining: number;
+  resetsAt: string; // when the window rolls over, or for requests when the oldest one ages out
+}
+
+export interface UsageQuota {
+  allowed: boolean;
+  retryAfterSeconds: number | null; // set when a quota is used up
+  quotas: QuotaStatus[];
+}
+
+export interface ScopedUsage {
+  scope: QuotaScope;
+  limits: UsageLimits;
+  totals: UsageTotals;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+// Daily and monthly windows follow the UTC calendar, so every user of an
+// organization sees the same reset time
+export const startOfUtcDay = (now: Date) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+export const startOfUtcMonth = (now: Date) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+const requestQuota = (scope: QuotaScope, limit: number, totals: UsageTotals, now: Date): QuotaStatus => {
+  const used = totals.requestsLastMinute;
+  const resetsAt = totals.oldestRequestAt
+    ? new Date(totals.oldestRequestAt).getTime() + MINUTE_MS
+    : now.getTime() + MINUTE_MS;
+
+  return {
+    scope,
+    window: "minute",
+    unit: "requests",
+    limit,
+    used,
+    remaining: Math.max(0, limit - used),
+    resetsAt: new Date(resetsAt).toISOString()
+  };
+};
+
+// Minutes are rounded to one decimal before comparing, the same way
+// `usage_within_limits` does when a request is reserved
+const audioQuota = (
+  scope: QuotaScope,
+  window: "day" | "month",
+  limit: number,
+  totals: UsageTotals,
+  now: Date
+): QuotaStatus => {
+  const start = window === "day" ? startOfUtcDay(now) : startOfUtcMonth(now);
+  const end = window === "day"
+    ? new Date(start.getTime() + 24 * 60 * MINUTE_MS)
+    : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  const seconds = window === "day" ? totals.audioSecondsToday : totals.audioSecondsThisMonth;
+  const used = Math.round((seconds / 60) * 10) / 10;
+
+  return {
+    scope,
+    window,
+    unit: "audio_minutes",
+    limit,
+    used,
+    remaining: Math.max(0, Math.round((limit - used) * 10) / 10),
+    resetsAt: end.toISOString()
+  };
+};
+
+export const summarizeUsage = (usage: ScopedUsage[], now = new Date()): UsageQuota => {
+  const quotas: QuotaStatus[] = [];
+  for (const { scope, limits, totals } of usage) {
+    if (limits.requestsPerMinute !== null) quotas.push(requestQuota(scope, limits.requestsPerMinute, totals, now));
+    if (limits.audioMinutesPerDay !== null) quotas.push(audioQuota(scope, "day", limits.audioMinutesPerDay, totals, now));
+    if (limits.audioMinutesPerMonth !== null) quotas.push(audioQuota(scope, "month", limits.audioMinutesPerMonth, totals, now));
+  }
+
+  // The caller has to wait for the last of the exhausted quotas to reset
+  const exhausted = quotas.filter(quota => quota.remaining <= 0);
+  const retryAfterSeconds = exhausted.length === 0
+    ? null
+    : Math.max(1, ...exhausted.map(quota => Math.ceil((new Date(quota.resetsAt).getTime() - now.getTime()) / 1000)));
+
+  return { allowed: exhausted.length === 0, retryAfterSeconds, quotas };
+};
+
+const WINDOW_LABELS: Record<QuotaWindow, string> = {
+  minute: "per minute",
+  day: "per day",
+  month: "per month"
+};
+
+// "5 transcriptions per minute for your organization"
+export const describeQuota = (quota: QuotaStatus) => {
+  const amount = quota.unit === "requests" ? `${quota.limit} transcriptions` : `${quota.limit} audio minutes`;
+  return `${amount} ${WINDOW_LABELS[quota.window]}${quota.scope === "organization" ? " for your organization" : ""}`;
+};
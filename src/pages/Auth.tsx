@@ -0,0 +1,120 @@
+import { FormEvent, useState } from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { useAuth } from "@/hooks/use-auth";
+import { signIn, signUp } from "@/lib/auth";
+
+type AuthMode = "sign-in" | "sign-up";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const Auth = () => {
+  const [mode, setMode] = useState<AuthMode>("sign-in");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { signedIn, loading } = useAuth();
+  const location = useLocation();
+  const { toast } = useToast();
+
+  // Once signed in, go back to the page that sent the visitor here
+  if (!loading && signedIn) {
+    const from = (location.state as { from?: string } | null)?.from || "/";
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    if (mode === "sign-up" && password.length < MIN_PASSWORD_LENGTH) {
+      toast({
+        title: "Password too short",
+        description: `Use at least ${MIN_PASSWORD_LENGTH} characters`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      if (mode === "sign-in") {
+        await signIn(email, password);
+      } else if (!(await signUp(email, password))) {
+        toast({
+          title: "Check your email",
+          description: `We sent a confirmation link to ${email}. Sign in once you have confirmed your address.`
+        });
+        setMode("sign-in");
+      }
+    } catch (error) {
+      toast({
+        title: mode === "sign-in" ? "Could not sign in" : "Could not create account",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/20 transition-colors duration-300">
+      <div className="container mx-auto px-4 py-8">
+        <header className="flex justify-end mb-8">
+          <ThemeToggle />
+        </header>
+
+        <Card className="max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle>Call Transcription & Analysis</CardTitle>
+            <CardDescription>Sign in to upload and review calls</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Tabs value={mode} onValueChange={value => setMode(value as AuthMode)} className="mb-6">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="sign-in">Sign in</TabsTrigger>
+                <TabsTrigger value="sign-up">Create account</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="auth-email">Email</Label>
+                <Input
+                  id="auth-email"
+                  type="email"
+                  autoComplete="email"
+                  value={email}
+                  onChange={event => setEmail(event.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="auth-password">Password</Label>
+                <Input
+                  id="auth-password"
+                  type="password"
+                  autoComplete={mode === "sign-in" ? "current-password" : "new-password"}
+                  value={password}
+                  onChange={event => setPassword(event.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={submitting || loading}>
+                {submitting ? "Please wait..." : mode === "sign-in" ? "Sign in" : "Create account"}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Auth;
@@ -1,11 +1,16 @@
 import { CallTranscriptionDashboard } from "@/components/CallTranscriptionDashboard";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { AppNav } from "@/components/AppNav";
 
 const Index = () => {
   return (
     <div className="min-h-screen bg-gradient-to-br from-background to-muted/20 transition-colors duration-300">
       <div className="container mx-auto px-4 py-8">
         <header className="text-center mb-8 relative">
+          <div className="absolute top-0 left-0">
+            <AppNav />
+          </div>
+
           {/* Theme Toggle positioned in top-right */}
           <div className="absolute top-0 right-0">
             <ThemeToggle />
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, Pencil, Plus, Trash2 } from "lucide-react";
+import { AppNav } from "@/components/AppNav";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { RubricEditor } from "@/components/RubricEditor";
+import { Rubric, RubricDraft, deleteRubric, fetchRubrics, saveRubric } from "@/lib/rubrics";
+import { CALL_TYPE_LABELS } from "@/lib/callTypes";
+
+interface EditorState {
+  id?: string;
+  draft: RubricDraft;
+}
+
+const NEW_RUBRIC: RubricDraft = {
+  name: "",
+  description: "",
+  callType: null,
+  isDefault: false,
+  categories: []
+};
+
+const Rubrics = () => {
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<EditorState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchRubrics()
+      .then(setRubrics)
+      .catch(error => toast({
+        title: "Could not load rubrics",
+        description: error.message,
+        variant: "destructive"
+      }))
+      .finally(() => setLoading(false));
+  }, [toast]);
+
+  const handleSave = async (draft: RubricDraft) => {
+    setSaving(true);
+    try {
+      const saved = await saveRubric(draft, editing?.id);
+      setRubrics(prev => [saved, ...prev.filter(rubric => rubric.id !== saved.id)]);
+      setEditing(null);
+      toast({ title: "Rubric saved", description: `${saved.name} is now at version ${saved.version}` });
+    } catch (error) {
+      toast({
+        title: "Could not save rubric",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (rubric: Rubric) => {
+    try {
+      await deleteRubric(rubric.id);
+      setRubrics(prev => prev.filter(r => r.id !== rubric.id));
+    } catch (error) {
+      toast({
+        title: "Could not delete rubric",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Built-in rubrics are read-only; customising one starts from a copy
+  const duplicate = (rubric: Rubric) => setEditing({
+    draft: {
+      name: `${rubric.name} (copy)`,
+      description: rubric.description,
+      callType: rubric.callType,
+      isDefault: false,
+      categories: rubric.categories
+    }
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/20 transition-colors duration-300">
+      <div className="container mx-auto px-4 py-8">
+        <header className="flex items-center justify-between mb-8">
+          <AppNav />
+          <ThemeToggle />
+        </header>
+
+        <div className="max-w-4xl mx-auto">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Scoring Rubrics</CardTitle>
+                  <CardDescription>
+                    Define the categories and criteria used to score calls. Each change creates a new version;
+                    past calls keep the version they were scored with.
+                  </CardDescription>
+                </div>
+                {!editing && (
+                  <Button onClick={() => setEditing({ draft: NEW_RUBRIC })}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    New rubric
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {editing ? (
+                <RubricEditor
+                  key={editing.id || "new"}
+                  initial={editing.draft}
+                  saving={saving}
+                  onSave={handleSave}
+                  onCancel={() => setEditing(null)}
+                />
+              ) : loading ? (
+                <p className="text-muted-foreground text-center py-8">Loading rubrics...</p>
+              ) : (
+                <div className="space-y-3">
+                  {rubrics.map(rubric => (
+                    <div key={rubric.id} className="flex items-start justify-between p-4 border rounded-lg">
+                      <div className="space-y-1">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          <span className="font-medium">{rubric.name}</span>
+                          <Badge variant="outline">v{rubric.version}</Badge>
+                          {rubric.builtIn && <Badge variant="secondary">Built-in</Badge>}
+                          {rubric.isDefault && <Badge>Default</Badge>}
+                          {rubric.callType && <Badge variant="outline">{CALL_TYPE_LABELS[rubric.callType]}</Badge>}
+                        </div>
+                        {rubric.description && (
+                          <p className="text-sm text-muted-foreground">{rubric.description}</p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          {rubric.categories.map(category => `${category.name} (${category.weight})`).join(" · ")}
+                        </p>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button variant="ghost" size="icon" title="Duplicate" onClick={() => duplicate(rubric)}>
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        {!rubric.builtIn && (
+                          <>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              title="Edit"
+                              onClick={() => setEditing({ id: rubric.id, draft: rubric })}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" title="Delete" onClick={() => handleDelete(rubric)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Rubrics;
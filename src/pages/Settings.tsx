@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { AppNav } from "@/components/AppNav";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { GlossaryEditor } from "@/components/GlossaryEditor";
+import { ComplianceRulesEditor } from "@/components/ComplianceRulesEditor";
+import { Organization, canManageOrganization, fetchCurrentOrganization } from "@/lib/organizations";
+import { Glossary, fetchGlossary, saveGlossary } from "@/lib/glossary";
+import { ComplianceRuleSet, fetchComplianceRules, saveComplianceRules } from "@/lib/compliance";
+import { GlossaryTerm } from "@/types/glossarySchema";
+import { ComplianceRule } from "@/types/complianceSchema";
+
+const Settings = () => {
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [glossary, setGlossary] = useState<Glossary | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [complianceRules, setComplianceRules] = useState<ComplianceRuleSet | null>(null);
+  const [savingRules, setSavingRules] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchCurrentOrganization()
+      .then(async org => {
+        setOrganization(org);
+        const [loadedGlossary, loadedRules] = await Promise.all([fetchGlossary(org.id), fetchComplianceRules(org.id)]);
+        setGlossary(loadedGlossary);
+        setComplianceRules(loadedRules);
+      })
+      .catch(error => toast({
+        title: "Could not load settings",
+        description: error.message,
+        variant: "destructive"
+      }));
+  }, [toast]);
+
+  const handleSave = async (terms: GlossaryTerm[]) => {
+    if (!organization) return;
+
+    setSaving(true);
+    try {
+      const saved = await saveGlossary(organization.id, terms);
+      setGlossary(saved);
+      toast({ title: "Glossary saved", description: `New calls will be transcribed with version ${saved.version}` });
+    } catch (error) {
+      toast({
+        title: "Could not save glossary",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveRules = async (rules: ComplianceRule[]) => {
+    if (!organization) return;
+
+    setSavingRules(true);
+    try {
+      const saved = await saveComplianceRules(organization.id, rules);
+      setComplianceRules(saved);
+      toast({ title: "Compliance rules saved", description: `New calls will be checked against version ${saved.version}` });
+    } catch (error) {
+      toast({
+        title: "Could not save compliance rules",
+        description: error instanceof Error ? error.message : "An unexpected error occurred",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingRules(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/20 transition-colors duration-300">
+      <div className="container mx-auto px-4 py-8">
+        <header className="flex items-center justify-between mb-8">
+          <AppNav />
+          <ThemeToggle />
+        </header>
+
+        <div className="max-w-4xl mx-auto space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <CardTitle>Glossary</CardTitle>
+                {glossary?.version && <Badge variant="outline">v{glossary.version}</Badge>}
+              </div>
+              <CardDescription>
+                Product, plan and agent names for {organization?.name || "your organization"}. Terms are passed to
+                speech-to-text, and misspellings or phonetic spellings in transcripts are corrected to the term.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {organization && glossary ? (
+                <>
+                  {!canManageOrganization(organization) && (
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Only organization owners and admins can edit the glossary.
+                    </p>
+                  )}
+                  <GlossaryEditor
+                    key={glossary.version ?? "new"}
+                    initial={glossary.terms}
+                    saving={saving}
+                    readOnly={!canManageOrganization(organization)}
+                    onSave={handleSave}
+                  />
+                </>
+              ) : (
+                <p className="text-muted-foreground text-center py-8">Loading glossary...</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center gap-2">
+                <CardTitle>Compliance Rules</CardTitle>
+                {complianceRules?.version && <Badge variant="outline">v{complianceRules.version}</Badge>}
+              </div>
+              <CardDescription>
+                Phrases that must or must never be said on a call, such as the recording disclosure or a promise of
+                guaranteed returns. Every analysed call gets a pass/fail checklist against these rules.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {organization && complianceRules ? (
+                <>
+                  {!canManageOrganization(organization) && (
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Only organization owners and admins can edit compliance rules.
+                    </p>
+                  )}
+                  <ComplianceRulesEditor
+                    key={complianceRules.version ?? "new"}
+                    initial={complianceRules.rules}
+                    saving={savingRules}
+                    readOnly={!canManageOrganization(organization)}
+                    onSave={handleSaveRules}
+                  />
+                </>
+              ) : (
+                <p className="text-muted-foreground text-center py-8">Loading compliance rules...</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
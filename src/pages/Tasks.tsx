@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { AppNav } from "@/components/AppNav";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { ActionItemList } from "@/components/ActionItemList";
+import { ActionItemRecord, fetchActionItems, isOverdue } from "@/lib/actionItems";
+
+type TaskFilter = "open" | "done" | "all";
+
+const Tasks = () => {
+  const [items, setItems] = useState<ActionItemRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<TaskFilter>("open");
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchActionItems()
+      .then(setItems)
+      .catch(error => toast({
+        title: "Could not load tasks",
+        description: error.message,
+        variant: "destructive"
+      }))
+      .finally(() => setLoading(false));
+  }, [toast]);
+
+  const visibleItems = items.filter(item =>
+    filter === "all" || (filter === "done") === (item.completedAt !== null)
+  );
+  const openCount = items.filter(item => !item.completedAt).length;
+  const overdueCount = items.filter(isOverdue).length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/20 transition-colors duration-300">
+      <div className="container mx-auto px-4 py-8">
+        <header className="flex items-center justify-between mb-8">
+          <AppNav />
+          <ThemeToggle />
+        </header>
+
+        <div className="max-w-4xl mx-auto">
+          <Card>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div className="space-y-1.5">
+                  <CardTitle>Tasks</CardTitle>
+                  <CardDescription>
+                    Action items promised on your calls: {openCount} open
+                    {overdueCount > 0 && <span className="text-red-600">, {overdueCount} overdue</span>}
+                  </CardDescription>
+                </div>
+                <ToggleGroup
+                  type="single"
+                  size="sm"
+                  variant="outline"
+                  value={filter}
+                  onValueChange={value => value && setFilter(value as TaskFilter)}
+                >
+                  <ToggleGroupItem value="open">Open</ToggleGroupItem>
+                  <ToggleGroupItem value="done">Done</ToggleGroupItem>
+                  <ToggleGroupItem value="all">All</ToggleGroupItem>
+                </ToggleGroup>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {loading ? (
+                <p className="text-muted-foreground text-center py-8">Loading tasks...</p>
+              ) : visibleItems.length === 0 ? (
+                <p className="text-muted-foreground text-center py-8">
+                  {items.length === 0 ? "No action items yet. They are extracted when a call is analysed." : "Nothing here"}
+                </p>
+              ) : (
+                <ActionItemList
+                  items={visibleItems}
+                  showCall
+                  onChange={updated => setItems(prev => prev.map(item => item.id === updated.id ? updated : item))}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Tasks;
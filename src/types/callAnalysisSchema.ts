@@ -0,0 +1,182 @@
+import { z } from "zod";
+import { callTypeSchema } from "./rubricSchema.ts";
+
+// Single source of truth for the call analysis shape. The app infers its
+// types from these schemas and the `transcribe-audio` worker validates model
+// output against them (resolved through supabase/functions/import_map.json).
+
+export const speakerRoleSchema = z.enum(['agent', 'customer', 'supervisor', 'ivr', 'other']);
+
+// A participant in the call. Transfers, barge-ins and conference calls can
+// have any number of them; segments and anomalies refer to them by id.
+export const speakerSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  role: speakerRoleSchema,
+  roleConfidence: z.number().min(0).max(1),
+  roleEvidence: z.string().min(1), // what in the call gave the role away
+});
+
+// Declared at upload: whether the agent placed the call or answered it
+export const agentSideSchema = z.enum(['caller', 'receiver']);
+
+export const sentimentLabelSchema = z.enum(['positive', 'neutral', 'negative']);
+
+// How the speaker comes across in one segment, from -1 (very negative) to 1
+export const segmentSentimentSchema = z.object({
+  score: z.number().min(-1).max(1),
+  label: sentimentLabelSchema,
+});
+
+export const speakerSegmentSchema = z.object({
+  id: z.number().int(),
+  speakerId: z.string(),
+  text: z.string(),
+  start: z.number(), // seconds from the start of the recording
+  end: z.number(),
+  sentiment: segmentSentimentSchema.optional(), // missing on calls analysed before sentiment was scored
+});
+
+export const speakerAnomaliesSchema = z.object({
+  speakerId: z.string(),
+  positive: z.array(z.string()),
+  negative: z.array(z.string()),
+});
+
+// One row per rubric criterion; the awarded points add up to `score`
+export const scoreBreakdownItemSchema = z.object({
+  category: z.string().min(1),
+  criterion: z.string().min(1),
+  maxPoints: z.number().positive(),
+  awardedPoints: z.number().min(0),
+  justification: z.string().min(1),
+}).refine(item => item.awardedPoints <= item.maxPoints, {
+  message: 'awardedPoints cannot exceed maxPoints',
+  path: ['awardedPoints'],
+});
+
+// Which side of the call made a commitment
+export const actionItemOwnerSchema = z.enum(['agent', 'customer']);
+
+// Something promised on the call, e.g. "I'll send the invoice by Friday"
+export const actionItemSchema = z.object({
+  owner: actionItemOwnerSchema,
+  description: z.string().min(1),
+  dueText: z.string().nullable(), // the deadline as it was said, e.g. "by Friday"
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'dueDate must be YYYY-MM-DD').nullable(), // resolved against the call date
+  segmentId: z.number().int(), // the segment the commitment was made in
+});
+
+export const entityTypeSchema = z.enum(['product', 'price', 'date', 'order_id', 'competitor', 'location']);
+
+// Something named on the call that reviewers look up: a plan, a quoted price,
+// an order number. `text` is verbatim so the transcript can highlight it.
+export const callEntitySchema = z.object({
+  type: entityTypeSchema,
+  text: z.string().min(1), // exactly as it appears in the segment
+  value: z.string().min(1), // normalized: canonical name, amount as a plain number, date as YYYY-MM-DD, id without spaces
+  currency: z.string().regex(/^[A-Z]{3}$/, 'currency must be an ISO 4217 code').nullable(), // prices only
+  segmentId: z.number().int(),
+});
+
+export const objectionCategorySchema = z.enum(['price', 'timing', 'authority', 'competitor', 'trust', 'need', 'other']);
+export const objectionHandlingSchema = z.enum(['handled', 'partial', 'unhandled']);
+
+// A customer pushing back ("that's too expensive", "I need to ask my manager")
+// and how well the agent's reply dealt with it
+export const objectionSchema = z.object({
+  category: objectionCategorySchema,
+  summary: z.string().min(1),
+  segmentId: z.number().int(), // where the customer raised it
+  responseSegmentId: z.number().int().nullable(), // the agent's reply; null when the agent never answered it
+  handling: objectionHandlingSchema,
+  assessment: z.string().min(1), // why the reply earned that rating
+});
+
+// Structured enough to paste into a CRM activity without editing
+export const crmNoteSchema = z.object({
+  reason: z.string().min(1), // why the call happened
+  resolution: z.string().min(1), // what was decided or done on the call
+  nextSteps: z.array(z.string().min(1)),
+});
+
+// The same call summarized for different readers
+export const callSummariesSchema = z.object({
+  headline: z.string().min(1).max(120, 'headline must be at most 120 characters'), // one line for lists
+  paragraph: z.string().min(1), // a few sentences for managers
+  crmNote: crmNoteSchema,
+});
+
+export const callTypeClassificationSchema = z.object({
+  type: callTypeSchema,
+  confidence: z.number().min(0).max(1),
+});
+
+export const callAnalysisSchema = z.object({
+  objective: z.string().min(1),
+  callType: callTypeClassificationSchema,
+  speakers: z.array(speakerSchema).min(1),
+  transcript: z.array(speakerSegmentSchema),
+  anomalies: z.array(speakerAnomaliesSchema),
+  conclusion: z.string().min(1),
+  summaries: callSummariesSchema.optional(), // missing on calls analysed before summaries were generated
+  suggestions: z.array(z.string()),
+  score: z.number().min(0).max(10),
+  scoreReasoning: z.string().min(1), // short overall summary; the detail is in scoreBreakdown
+  scoreBreakdown: z.array(scoreBreakdownItemSchema).min(1),
+  actionItems: z.array(actionItemSchema).optional(), // missing on calls analysed before extraction was added
+  entities: z.array(callEntitySchema).optional(), // likewise
+  objections: z.array(objectionSchema).optional(), // likewise
+});
+
+// What the model is asked to return: the analysis without the transcript.
+// Segments are attributed to speakers in separate, batched requests.
+export const modelCallAnalysisSchema = callAnalysisSchema
+  .omit({ transcript: true })
+  .extend({
+    actionItems: z.array(actionItemSchema),
+    entities: z.array(callEntitySchema),
+    objections: z.array(objectionSchema),
+    summaries: callSummariesSchema,
+  });
+
+// Who spoke one speech-to-text segment and how they came across in it
+export const segmentSpeakerSchema = z.object({
+  segmentId: z.number().int(),
+  speakerId: z.string(),
+  sentiment: segmentSentimentSchema,
+});
+
+export const speakerLabellingSchema = z.object({
+  segments: z.array(segmentSpeakerSchema),
+});
+
+// Recorded instead of an analysis when the model output never validated
+export const analysisFailureSchema = z.object({
+  reason: z.string(),
+  issues: z.array(z.string()),
+  attempts: z.number().int(),
+});
+
+export type AgentSide = z.infer<typeof agentSideSchema>;
+export type SpeakerRole = z.infer<typeof speakerRoleSchema>;
+export type Speaker = z.infer<typeof speakerSchema>;
+export type SentimentLabel = z.infer<typeof sentimentLabelSchema>;
+export type SegmentSentiment = z.infer<typeof segmentSentimentSchema>;
+export type SpeakerSegment = z.infer<typeof speakerSegmentSchema>;
+export type SpeakerAnomalies = z.infer<typeof speakerAnomaliesSchema>;
+export type ActionItemOwner = z.infer<typeof actionItemOwnerSchema>;
+export type ActionItem = z.infer<typeof actionItemSchema>;
+export type EntityType = z.infer<typeof entityTypeSchema>;
+export type CallEntity = z.infer<typeof callEntitySchema>;
+export type ObjectionCategory = z.infer<typeof objectionCategorySchema>;
+export type ObjectionHandling = z.infer<typeof objectionHandlingSchema>;
+export type Objection = z.infer<typeof objectionSchema>;
+export type CrmNote = z.infer<typeof crmNoteSchema>;
+export type CallSummaries = z.infer<typeof callSummariesSchema>;
+export type CallTypeClassification = z.infer<typeof callTypeClassificationSchema>;
+export type ScoreBreakdownItem = z.infer<typeof scoreBreakdownItemSchema>;
+export type CallAnalysis = z.infer<typeof callAnalysisSchema>;
+export type ModelCallAnalysis = z.infer<typeof modelCallAnalysisSchema>;
+export type SegmentSpeaker = z.infer<typeof segmentSpeakerSchema>;
+export type AnalysisFailure = z.infer<typeof analysisFailureSchema>;
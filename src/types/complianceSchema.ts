@@ -0,0 +1,71 @@
+import { z } from "zod";
+import { speakerRoleSchema } from "./callAnalysisSchema.ts";
+
+// Organization compliance rules are stored in `public.compliance_rule_sets`.
+// The worker checks every analysed call against them and stores the result
+// on the transcription, so a later edit never changes a past verdict.
+
+// Limits a rule to the start or the end of the call, e.g. the recording
+// disclosure within the first 30 seconds
+export const complianceWindowSchema = z.object({
+  anchor: z.enum(['start', 'end']),
+  seconds: z.number().positive('Window must be longer than 0 seconds'),
+});
+
+export const complianceRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().trim().min(1, 'Rule name is required').max(100, 'Keep rule names under 100 characters'),
+  // Required rules pass when any phrase is said; forbidden rules fail when any is
+  kind: z.enum(['required', 'forbidden']),
+  // The phrase followed by its allowed paraphrases, matched ignoring case and punctuation
+  phrases: z.array(z.string().trim().min(1, 'Phrases cannot be blank')).min(1, 'Add at least one phrase'),
+  // Only segments from speakers with this role count; any speaker when unset
+  speakerRole: speakerRoleSchema.optional(),
+  window: complianceWindowSchema.optional(),
+});
+
+export const complianceRulesSchema = z.array(complianceRuleSchema)
+  .max(100, 'A rule set can hold at most 100 rules')
+  .superRefine((rules, ctx) => {
+    const names = new Set<string>();
+    rules.forEach((rule, index) => {
+      const name = rule.name.toLowerCase();
+      if (names.has(name)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [index, 'name'], message: `"${rule.name}" is used by another rule` });
+      }
+      names.add(name);
+    });
+  });
+
+// Where a phrase was heard. `inWindow` is false for a required phrase said
+// outside its window, which is reported but does not pass the rule.
+export const complianceEvidenceSchema = z.object({
+  segmentId: z.number().int(),
+  start: z.number(),
+  phrase: z.string(),
+  inWindow: z.boolean(),
+});
+
+export const complianceStatusSchema = z.enum(['passed', 'failed']);
+
+export const complianceCheckSchema = z.object({
+  ruleId: z.string(),
+  name: z.string(),
+  kind: complianceRuleSchema.shape.kind,
+  window: complianceWindowSchema.optional(),
+  status: complianceStatusSchema,
+  evidence: z.array(complianceEvidenceSchema),
+});
+
+export const complianceResultSchema = z.object({
+  version: z.number().int(), // rule set version the call was checked against
+  status: complianceStatusSchema, // failed when any check failed
+  checks: z.array(complianceCheckSchema),
+});
+
+export type ComplianceWindow = z.infer<typeof complianceWindowSchema>;
+export type ComplianceRule = z.infer<typeof complianceRuleSchema>;
+export type ComplianceEvidence = z.infer<typeof complianceEvidenceSchema>;
+export type ComplianceStatus = z.infer<typeof complianceStatusSchema>;
+export type ComplianceCheck = z.infer<typeof complianceCheckSchema>;
+export type ComplianceResult = z.infer<typeof complianceResultSchema>;
@@ -0,0 +1,40 @@
+import { z } from "zod";
+
+// Organization glossaries are stored in `public.glossaries`. The worker feeds
+// the terms to speech-to-text as a prompt and then rewrites known misspellings
+// in the returned segments.
+
+export const glossaryTermSchema = z.object({
+  term: z.string().trim().min(1, 'Term is required').max(100, 'Keep terms under 100 characters'),
+  // Spellings speech-to-text tends to produce instead of the term
+  aliases: z.array(z.string().trim().min(1, 'Aliases cannot be blank')).default([]),
+  // Phonetic spelling, e.g. "voh-kuh-lit-iks"; also matched like an alias
+  pronunciation: z.string().trim().optional(),
+});
+
+const spellingsOf = (term: z.infer<typeof glossaryTermSchema>) =>
+  [term.term, ...term.aliases, ...(term.pronunciation ? [term.pronunciation] : [])]
+    .map(spelling => spelling.toLowerCase());
+
+export const glossaryTermsSchema = z.array(glossaryTermSchema)
+  .max(500, 'A glossary can hold at most 500 terms')
+  .superRefine((terms, ctx) => {
+    // A spelling claimed by two terms would be rewritten unpredictably
+    const owners = new Map<string, string>();
+    terms.forEach((term, index) => {
+      for (const spelling of new Set(spellingsOf(term))) {
+        const owner = owners.get(spelling);
+        if (owner) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index],
+            message: `"${spelling}" is already used by "${owner}"`,
+          });
+        } else {
+          owners.set(spelling, term.term);
+        }
+      }
+    });
+  });
+
+export type GlossaryTerm = z.infer<typeof glossaryTermSchema>;
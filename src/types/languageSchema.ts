@@ -0,0 +1,30 @@
+import { z } from "zod";
+
+// Per-segment language tags produced after transcription. Shared with the
+// `transcribe-audio` worker, which validates the tagging model's output.
+
+export const languageShareSchema = z.object({
+  code: z.string().min(2).max(3), // ISO 639-1 where one exists
+  share: z.number().min(0).max(1),
+});
+
+export const segmentLanguageSchema = z.object({
+  segmentId: z.number().int(),
+  languages: z.array(languageShareSchema).min(1),
+  translation: z.string().optional(), // English; omitted when the segment is already English
+});
+
+export const languageTaggingSchema = z.object({
+  segments: z.array(segmentLanguageSchema),
+});
+
+// Call-level view: how much of the call was in each language, and how much
+// speakers switched languages within their turns (0 = never, 1 = constantly)
+export const languageMixSchema = z.object({
+  languages: z.array(languageShareSchema),
+  codeMixingRatio: z.number().min(0).max(1),
+});
+
+export type LanguageShare = z.infer<typeof languageShareSchema>;
+export type SegmentLanguage = z.infer<typeof segmentLanguageSchema>;
+export type LanguageMix = z.infer<typeof languageMixSchema>;
@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+// Personal data found in transcripts by the redaction stage of the worker.
+// Stored transcripts and analyses carry a marker in place of each value; the
+// original text is kept separately for users allowed to see it.
+
+export const piiTypeSchema = z.enum(['card_number', 'phone', 'email', 'aadhaar', 'pan', 'otp']);
+
+export const piiEntitySchema = z.object({
+  type: piiTypeSchema,
+  segmentId: z.number().int(),
+  // Character offsets into the unredacted segment text
+  start: z.number().int().min(0),
+  end: z.number().int().min(0),
+  // Where the value is spoken in the recording, in seconds
+  startTime: z.number().min(0),
+  endTime: z.number().min(0),
+  source: z.enum(['pattern', 'model']),
+});
+
+// Output of the optional model pass, which catches values spoken as words
+// ("four five three two ...") that the patterns miss
+export const modelPiiDetectionSchema = z.object({
+  entities: z.array(z.object({
+    segmentId: z.number().int(),
+    type: piiTypeSchema,
+    text: z.string().min(1), // exact substring of the segment
+  })),
+});
+
+// How detected spans are masked in the redacted copy of a recording
+export const audioRedactionModeSchema = z.enum(['tone', 'silence']);
+
+export const formatRedactionMarker = (type: PiiType) => `[REDACTED:${type}]`;
+
+// Matches markers written by formatRedactionMarker; group 1 is the type
+export const REDACTION_MARKER_PATTERN = /\[REDACTED:([a-z_]+)\]/g;
+
+export type PiiType = z.infer<typeof piiTypeSchema>;
+export type PiiEntity = z.infer<typeof piiEntitySchema>;
+export type AudioRedactionMode = z.infer<typeof audioRedactionModeSchema>;
@@ -0,0 +1,38 @@
+import { z } from "zod";
+
+// Scoring rubrics are stored in `public.rubrics` and turned into the scoring
+// section of the analysis prompt. Shared with the `transcribe-audio` worker.
+
+export const RUBRIC_TOTAL_POINTS = 10;
+
+// Call types the analysis recognises; a rubric can be the default for one
+export const callTypeSchema = z.enum(['sales', 'support', 'consultation', 'inquiry', 'complaint', 'follow-up']);
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+export const rubricCriterionSchema = z.object({
+  name: z.string().trim().min(1, 'Criterion name is required'),
+  points: z.number().positive('Points must be greater than 0'),
+  description: z.string().optional(),
+});
+
+export const rubricCategorySchema = z.object({
+  name: z.string().trim().min(1, 'Category name is required'),
+  weight: z.number().positive('Weight must be greater than 0'),
+  guidance: z.string().optional(),
+  criteria: z.array(rubricCriterionSchema).min(1, 'Add at least one criterion'),
+}).refine(
+  category => Math.abs(sum(category.criteria.map(criterion => criterion.points)) - category.weight) < 0.001,
+  category => ({ message: `Criteria in "${category.name}" must add up to its weight of ${category.weight}` })
+);
+
+export const rubricCategoriesSchema = z.array(rubricCategorySchema)
+  .min(1, 'Add at least one category')
+  .refine(
+    categories => Math.abs(sum(categories.map(category => category.weight)) - RUBRIC_TOTAL_POINTS) < 0.001,
+    { message: `Category weights must add up to ${RUBRIC_TOTAL_POINTS}` }
+  );
+
+export type CallType = z.infer<typeof callTypeSchema>;
+export type RubricCriterion = z.infer<typeof rubricCriterionSchema>;
+export type RubricCategory = z.infer<typeof rubricCategorySchema>;
@@ -1,28 +1,40 @@
-export interface SpeakerSegment {
-  speaker: 'Caller' | 'Receiver';
+// Shared with the edge functions (through `supabase/functions/_shared/types.ts`),
+// so imports here carry their `.ts` extension for Deno
+import type { AgentSide, AnalysisFailure, CallAnalysis } from './callAnalysisSchema.ts';
+import type { CallType } from './rubricSchema.ts';
+import type { LanguageMix, SegmentLanguage } from './languageSchema.ts';
+import type { AudioRedactionMode, PiiEntity } from './piiSchema.ts';
+import type { ConversationMetrics } from '../lib/conversationMetrics.ts';
+import type { ComplianceResult } from './complianceSchema.ts';
+
+export type { ActionItem, ActionItemOwner, AgentSide, AnalysisFailure, CallAnalysis, CallEntity, CallSummaries, CallTypeClassification, CrmNote, EntityType, Objection, ObjectionCategory, ObjectionHandling, ScoreBreakdownItem, SegmentSentiment, SentimentLabel, Speaker, SpeakerAnomalies, SpeakerRole, SpeakerSegment } from './callAnalysisSchema.ts';
+export type { LanguageMix, LanguageShare, SegmentLanguage } from './languageSchema.ts';
+export type { AudioRedactionMode, PiiEntity, PiiType } from './piiSchema.ts';
+export type { ComplianceCheck, ComplianceEvidence, ComplianceResult, ComplianceRule, ComplianceStatus, ComplianceWindow } from './complianceSchema.ts';
+
+// A span of recognised speech with absolute offsets (seconds) into the recording
+export interface TranscriptSegment {
+  id: number;
+  start: number;
+  end: number;
   text: string;
-  timestamp: string;
 }
 
-export interface CallAnalysis {
-  objective: string;
-  transcript: SpeakerSegment[];
-  anomalies: {
-    caller: {
-      positive: string[];
-      negative: string[];
-    };
-    receiver: {
-      positive: string[];
-      negative: string[];
-    };
-  };
-  conclusion: string;
-  suggestions: string[];
-  score: number;
-  scoreReasoning: string;
+// Original transcript text, only returned to users allowed to see personal data
+export interface UnredactedTranscript {
+  transcript: string;
+  segments: TranscriptSegment[];
 }
 
+// The rubric (and version) that scored a call
+export interface RubricReference {
+  id: string;
+  name: string;
+  version: number;
+}
+
+export type TranscriptionStatus = 'queued' | 'transcribing' | 'analyzing' | 'completed' | 'failed';
+
 export interface TranscriptionData {
   id: string;
   transcript: string;
@@ -30,16 +42,52 @@ export interface TranscriptionData {
   anomalies: string[];
   suggestions: string[];
   duration: number;
-  status: 'processing' | 'completed' | 'error';
+  status: TranscriptionStatus;
   analysis?: CallAnalysis;
   audioUrl?: string;
+  audioRedacted?: boolean;
+  redactedAudioMode?: AudioRedactionMode;
   fileName?: string;
+  error?: string;
+  analysisFailure?: AnalysisFailure;
+  rubric?: RubricReference;
+  callTypeOverride?: CallType;
+  agentSide?: AgentSide;
+  segmentLanguages?: SegmentLanguage[];
+  languageMix?: LanguageMix;
+  glossaryVersion?: number;
+  piiEntities?: PiiEntity[];
+  conversationMetrics?: ConversationMetrics;
+  compliance?: ComplianceResult;
+  canViewUnredacted?: boolean;
 }
 
-export interface TranscriptionResponse {
+export interface TranscriptionJobResponse {
+  id: string;
+  status: TranscriptionStatus;
+  fileName: string;
+  fileSize: number;
+  audioUrl: string | null;
+  audioRedacted: boolean; // audioUrl is the redacted copy
+  redactedAudioMode: AudioRedactionMode | null; // null until a redacted copy exists
   transcript: string;
   anomalies: string[];
   suggestions: string[];
   duration: number;
-  analysis: CallAnalysis;
+  analysis: CallAnalysis | null;
+  analysisFailure: AnalysisFailure | null;
+  rubric: RubricReference | null;
+  callTypeOverride: CallType | null;
+  agentSide: AgentSide | null;
+  segmentLanguages: SegmentLanguage[] | null;
+  languageMix: LanguageMix | null;
+  glossaryVersion: number | null;
+  piiEntities: PiiEntity[] | null;
+  conversationMetrics: ConversationMetrics | null;
+  compliance: ComplianceResult | null;
+  canViewUnredacted: boolean;
+  unredacted: UnredactedTranscript | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
 }
\ No newline at end of file
@@ -0,0 +1,273 @@
+// Splits recordings that exceed the transcription upload limit into
+// overlapping chunks without re-encoding. WAV chunks get a fresh RIFF header
+// around a slice of the PCM data; MP3 chunks are cut on frame boundaries.
+
+export interface AudioChunk {
+  index: number;
+  blob: Blob;
+  offset: number; // seconds from the start of the recording
+  end: number;    // seconds from the start of the recording
+}
+
+export interface SplitOptions {
+  maxChunkBytes: number;
+  overlapSeconds: number;
+}
+
+export interface Mp3Frame {
+  offset: number;
+  length: number;
+  time: number;
+  duration: number;
+  isMpeg1: boolean;
+}
+
+const MPEG1_L3_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_L3_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000],  // MPEG-2.5
+};
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const writeAscii = (bytes: Uint8Array, offset: number, text: string) => {
+  for (let i = 0; i < text.length; i++) bytes[offset + i] = text.charCodeAt(i);
+};
+
+export interface WavLayout {
+  fmt: Uint8Array;  // body of the `fmt ` chunk
+  dataStart: number;
+  dataSize: number;
+  byteRate: number;
+  blockAlign: number;
+}
+
+export const parseWav = (bytes: Uint8Array): WavLayout | null => {
+  if (readAscii(bytes, 0, 4) !== 'RIFF' || readAscii(bytes, 8, 4) !== 'WAVE') return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let fmt: Uint8Array | null = null;
+  let dataStart = -1;
+  let dataSize = 0;
+
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const id = readAscii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ') {
+      fmt = bytes.slice(offset + 8, offset + 8 + size);
+    } else if (id === 'data') {
+      dataStart = offset + 8;
+      dataSize = Math.min(size, bytes.length - dataStart);
+      break;
+    }
+    offset += 8 + size + (size % 2);
+  }
+
+  if (!fmt || fmt.length < 16 || dataStart < 0) return null;
+
+  const fmtView = new DataView(fmt.buffer);
+  return {
+    fmt,
+    dataStart,
+    dataSize,
+    byteRate: fmtView.getUint32(8, true),
+    blockAlign: fmtView.getUint16(12, true),
+  };
+};
+
+const splitWav = (audio: Blob, bytes: Uint8Array, options: SplitOptions): AudioChunk[] | null => {
+  const wav = parseWav(bytes);
+  if (!wav) return null;
+
+  const { fmt, dataStart, dataSize, byteRate, blockAlign } = wav;
+  const headerSize = 12 + 8 + fmt.length + 8;
+
+  const alignDown = (value: number) => Math.floor(value / blockAlign) * blockAlign;
+  const chunkBytes = alignDown(options.maxChunkBytes - headerSize);
+  const overlapBytes = alignDown(options.overlapSeconds * byteRate);
+
+  const buildChunk = (start: number, end: number) => {
+    const header = new Uint8Array(headerSize);
+    const headerView = new DataView(header.buffer);
+    writeAscii(header, 0, 'RIFF');
+    headerView.setUint32(4, headerSize - 8 + (end - start), true);
+    writeAscii(header, 8, 'WAVE');
+    writeAscii(header, 12, 'fmt ');
+    headerView.setUint32(16, fmt.length, true);
+    header.set(fmt, 20);
+    writeAscii(header, 20 + fmt.length, 'data');
+    headerView.setUint32(24 + fmt.length, end - start, true);
+    return new Blob([header, audio.slice(dataStart + start, dataStart + end)], { type: 'audio/wav' });
+  };
+
+  const chunks: AudioChunk[] = [];
+  for (let start = 0; start < dataSize; start += chunkBytes - overlapBytes) {
+    const end = Math.min(start + chunkBytes, dataSize);
+    chunks.push({
+      index: chunks.length,
+      blob: buildChunk(start, end),
+      offset: start / byteRate,
+      end: end / byteRate,
+    });
+    if (end === dataSize) break;
+  }
+  return chunks;
+};
+
+const skipId3v2 = (bytes: Uint8Array) => {
+  if (readAscii(bytes, 0, 3) !== 'ID3') return 0;
+  const size = (bytes[6] << 21) | (bytes[7] << 14) | (bytes[8] << 7) | bytes[9];
+  const hasFooter = (bytes[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+};
+
+// Where the audio frames stop: ID3v1, Lyrics3v2 and APEv2 tags are appended
+// after the last frame and may contain bytes that look like frame headers
+const findMp3End = (bytes: Uint8Array) => {
+  let end = bytes.length;
+
+  if (end >= 128 && readAscii(bytes, end - 128, 3) === 'TAG') end -= 128;
+
+  if (end >= 15 && readAscii(bytes, end - 9, 9) === 'LYRICS200') {
+    const size = Number(readAscii(bytes, end - 15, 6));
+    if (Number.isInteger(size)) end = Math.max(0, end - 15 - size);
+  }
+
+  if (end >= 32 && readAscii(bytes, end - 32, 8) === 'APETAGEX') {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const size = view.getUint32(end - 32 + 12, true); // tag items plus footer
+    const hasHeader = (view.getUint32(end - 32 + 20, true) & 0x80000000) !== 0;
+    end = Math.max(0, end - size - (hasHeader ? 32 : 0));
+  }
+
+  return end;
+};
+
+const parseMp3Frame = (bytes: Uint8Array, offset: number) => {
+  if (bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const version = (bytes[offset + 1] >> 3) & 0x03;
+  const layer = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+
+  // Layer III only; reject reserved version, bitrate and sample rate values
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+
+  const isMpeg1 = version === 3;
+  const bitrate = (isMpeg1 ? MPEG1_L3_BITRATES : MPEG2_L3_BITRATES)[bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+  const samples = isMpeg1 ? 1152 : 576;
+
+  return {
+    version,
+    sampleRate,
+    length: Math.floor(((samples / 8) * bitrate) / sampleRate) + padding,
+    duration: samples / sampleRate,
+  };
+};
+
+// Two-frame sync check: a header only counts when the next frame's header
+// follows right after it with the same version and sample rate, or the frame
+// runs exactly to the end of the audio. Sync bytes inside VBR or tag data fail it.
+const readMp3Frame = (bytes: Uint8Array, offset: number, end: number) => {
+  const frame = parseMp3Frame(bytes, offset);
+  if (!frame || frame.length < 4 || offset + frame.length > end) return null;
+
+  const nextOffset = offset + frame.length;
+  if (nextOffset === end) return frame;
+  if (nextOffset + 4 > end) return null;
+
+  const next = parseMp3Frame(bytes, nextOffset);
+  return next && next.version === frame.version && next.sampleRate === frame.sampleRate ? frame : null;
+};
+
+// A Xing, Info or VBRI header takes the place of the first frame's audio;
+// decoders skip it, so it carries no time
+const isVbrHeaderFrame = (bytes: Uint8Array, frame: Mp3Frame) => {
+  const head = readAscii(bytes, frame.offset + 4, Math.min(frame.length - 4, 40));
+  return /Xing|Info|VBRI/.test(head);
+};
+
+export const readMp3Frames = (bytes: Uint8Array): Mp3Frame[] => {
+  const frames: Mp3Frame[] = [];
+  const audioEnd = findMp3End(bytes);
+  let time = 0;
+
+  for (let offset = skipId3v2(bytes); offset + 4 <= audioEnd;) {
+    const frame = readMp3Frame(bytes, offset, audioEnd);
+    if (!frame) {
+      offset++;
+      continue;
+    }
+    const entry = { offset, length: frame.length, time, duration: frame.duration, isMpeg1: frame.version === 3 };
+    offset += frame.length;
+    if (frames.length === 0 && isVbrHeaderFrame(bytes, entry)) continue;
+    frames.push(entry);
+    time += frame.duration;
+  }
+  return frames;
+};
+
+const splitMp3 = (audio: Blob, bytes: Uint8Array, options: SplitOptions): AudioChunk[] | null => {
+  const frames = readMp3Frames(bytes);
+  if (frames.length === 0) return null;
+
+  const chunks: AudioChunk[] = [];
+  let start = 0;
+  while (start < frames.length) {
+    let end = start;
+    let size = 0;
+    while (end < frames.length && size + frames[end].length <= options.maxChunkBytes) {
+      size += frames[end].length;
+      end++;
+    }
+    if (end === start) end++;
+
+    const last = frames[end - 1];
+    chunks.push({
+      index: chunks.length,
+      blob: audio.slice(frames[start].offset, last.offset + last.length, 'audio/mpeg'),
+      offset: frames[start].time,
+      end: last.time + last.duration,
+    });
+
+    if (end >= frames.length) break;
+
+    // Step back so the next chunk re-covers the tail of this one
+    let next = end;
+    let overlap = 0;
+    while (next > start + 1 && overlap < options.overlapSeconds) {
+      next--;
+      overlap += frames[next].duration;
+    }
+    start = next;
+  }
+  return chunks;
+};
+
+export const splitAudio = async (
+  audio: Blob,
+  fileName: string,
+  options: SplitOptions
+): Promise<AudioChunk[]> => {
+  if (audio.size <= options.maxChunkBytes) {
+    return [{ index: 0, blob: audio, offset: 0, end: Infinity }];
+  }
+
+  const bytes = new Uint8Array(await audio.arrayBuffer());
+  const chunks = splitWav(audio, bytes, options) ?? splitMp3(audio, bytes, options);
+
+  if (!chunks) {
+    throw new Error(`Cannot split ${fileName}: only WAV and MP3 recordings over ${options.maxChunkBytes} bytes are supported`);
+  }
+
+  console.log(`Split ${fileName} into ${chunks.length} chunks`);
+  return chunks;
+};
@@ -0,0 +1,259 @@
+// Renders the copy of a recording that members without unredacted access
+// hear. Every PII span is masked in place and the rest of the file is left
+// untouched: WAV samples are rewritten with a tone or silence, while MP3
+// frames can only be silenced, as there is no encoder here to write a tone.
+import { AdminClient } from './supabaseAdmin.ts';
+import { uploadAudio } from './storage.ts';
+import { Mp3Frame, parseWav, readMp3Frames } from './audioChunks.ts';
+import { AudioRedactionMode, PiiEntity } from './types.ts';
+
+export const DEFAULT_AUDIO_REDACTION_MODE: AudioRedactionMode = 'tone';
+
+const TONE_FREQUENCY_HZ = 1000;
+const TONE_GAIN = 0.2;
+// Short ramps at each edge of a masked span avoid audible clicks
+const FADE_SECONDS = 0.01;
+// Word timings from speech-to-text are approximate, so spans are widened a little
+const SPAN_PADDING_SECONDS = 0.1;
+
+type TimeSpan = Pick<PiiEntity, 'startTime' | 'endTime'>;
+
+interface MaskSpan {
+  start: number;
+  end: number;
+}
+
+export interface RedactedAudio {
+  bytes: Uint8Array;
+  contentType: 'audio/wav' | 'audio/mpeg';
+  mode: AudioRedactionMode; // what was applied: MP3 recordings are always silenced
+  extension: 'wav' | 'mp3';
+}
+
+interface SampleCodec {
+  read: (view: DataView, offset: number) => number;
+  write: (view: DataView, offset: number, value: number) => void;
+}
+
+const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+const getSampleCodec = (formatTag: number, bitsPerSample: number): SampleCodec | null => {
+  if (formatTag === WAVE_FORMAT_IEEE_FLOAT && bitsPerSample === 32) {
+    return {
+      read: (view, offset) => view.getFloat32(offset, true),
+      write: (view, offset, value) => view.setFloat32(offset, clamp(value), true),
+    };
+  }
+  if (formatTag !== WAVE_FORMAT_PCM) return null;
+
+  switch (bitsPerSample) {
+    case 8: // unsigned, centred on 128
+      return {
+        read: (view, offset) => (view.getUint8(offset) - 128) / 128,
+        write: (view, offset, value) => view.setUint8(offset, Math.round(clamp(value) * 127) + 128),
+      };
+    case 16:
+      return {
+        read: (view, offset) => view.getInt16(offset, true) / 0x8000,
+        write: (view, offset, value) => view.setInt16(offset, Math.round(clamp(value) * 0x7fff), true),
+      };
+    case 24:
+      return {
+        read: (view, offset) =>
+          (view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16)) / 0x800000,
+        write: (view, offset, value) => {
+          const sample = Math.round(clamp(value) * 0x7fffff);
+          view.setUint8(offset, sample & 0xff);
+          view.setUint8(offset + 1, (sample >> 8) & 0xff);
+          view.setUint8(offset + 2, (sample >> 16) & 0xff);
+        },
+      };
+    case 32:
+      return {
+        read: (view, offset) => view.getInt32(offset, true) / 0x80000000,
+        write: (view, offset, value) => view.setInt32(offset, Math.round(clamp(value) * 0x7fffffff), true),
+      };
+    default:
+      return null;
+  }
+};
+
+// Both renderers mask `bytes` in place and return it, or null for another format
+const redactWav = (bytes: Uint8Array, spans: MaskSpan[], mode: AudioRedactionMode): Uint8Array | null => {
+  const wav = parseWav(bytes);
+  if (!wav) return null;
+
+  const fmt = new DataView(wav.fmt.buffer);
+  const tag = fmt.getUint16(0, true);
+  const channels = fmt.getUint16(2, true);
+  const sampleRate = fmt.getUint32(4, true);
+  const bitsPerSample = fmt.getUint16(14, true);
+  // Extensible WAVs carry the real format tag at the start of the sub-format GUID
+  const formatTag = tag === WAVE_FORMAT_EXTENSIBLE && wav.fmt.length >= 26 ? fmt.getUint16(24, true) : tag;
+  const codec = getSampleCodec(formatTag, bitsPerSample);
+  if (!codec || channels === 0 || sampleRate === 0) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(wav.dataSize / wav.blockAlign);
+  const fadeFrames = Math.round(FADE_SECONDS * sampleRate);
+
+  for (const span of spans) {
+    const start = Math.max(0, Math.floor(span.start * sampleRate));
+    const end = Math.min(frameCount, Math.ceil(span.end * sampleRate));
+
+    for (let i = start; i < end; i++) {
+      const edge = Math.min(i - start, end - 1 - i);
+      const gain = edge < fadeFrames ? edge / fadeFrames : 1;
+      const tone = mode === 'tone'
+        ? TONE_GAIN * Math.sin((2 * Math.PI * TONE_FREQUENCY_HZ * i) / sampleRate)
+        : 0;
+      for (let channel = 0; channel < channels; channel++) {
+        const offset = wav.dataStart + i * wav.blockAlign + channel * bytesPerSample;
+        // Fade out the original while fading in the mask, so nothing of the value survives in the middle
+        codec.write(view, offset, codec.read(view, offset) * (1 - gain) + tone * gain);
+      }
+    }
+  }
+  return bytes;
+};
+
+// Layer III frame layout: the 4-byte header, an optional CRC, then the side
+// information, which says where in the byte stream the frame's audio data
+// starts (up to 511 bytes back, the bit reservoir) and how many bits it takes.
+// A frame whose side information is all zeros decodes to silence.
+const headerLength = (bytes: Uint8Array, frame: Mp3Frame) =>
+  (bytes[frame.offset + 1] & 0x01) === 0 ? 6 : 4;
+
+const isMono = (bytes: Uint8Array, frame: Mp3Frame) => bytes[frame.offset + 3] >> 6 === 3;
+
+const sideInfoLength = (bytes: Uint8Array, frame: Mp3Frame) => {
+  if (frame.isMpeg1) return isMono(bytes, frame) ? 17 : 32;
+  return isMono(bytes, frame) ? 9 : 17;
+};
+
+const readBits = (bytes: Uint8Array, offset: number, bit: number, count: number) => {
+  let value = 0;
+  for (let i = bit; i < bit + count; i++) {
+    value = (value << 1) | ((bytes[offset + (i >> 3)] >> (7 - (i & 7))) & 1);
+  }
+  return value;
+};
+
+// Where the frame's audio data starts, in bytes before its own data area, and
+// how long it is: the sum of `part2_3_length` over every granule and channel
+const readMainData = (bytes: Uint8Array, frame: Mp3Frame) => {
+  const sideInfo = frame.offset + headerLength(bytes, frame);
+  const channels = isMono(bytes, frame) ? 1 : 2;
+  const granules = frame.isMpeg1 ? 2 : 1;
+  const granuleBits = frame.isMpeg1 ? 59 : 63;
+  let bit = frame.isMpeg1 ? 9 + (channels === 1 ? 5 : 3) + 4 * channels : 8 + channels;
+
+  let bits = 0;
+  for (let i = 0; i < granules * channels; i++) {
+    bits += readBits(bytes, sideInfo, bit, 12);
+    bit += granuleBits;
+  }
+
+  return {
+    begin: readBits(bytes, sideInfo, 0, frame.isMpeg1 ? 9 : 8),
+    length: Math.ceil(bits / 8),
+  };
+};
+
+// Silences every frame that overlaps a span. Its audio data may sit in the
+// data areas of earlier frames, which also hold other frames' data, so only
+// the bytes that belong to the silenced frame are cleared before its side
+// information is zeroed; the frames around it still decode normally. Frame
+// headers and the side information of frames not yet visited are never
+// cleared, so reading them after earlier frames were masked is safe.
+const redactMp3 = (bytes: Uint8Array, spans: MaskSpan[]): Uint8Array | null => {
+  const frames = readMp3Frames(bytes);
+  if (frames.length === 0) return null;
+
+  const areas = frames.map(frame => {
+    const start = frame.offset + headerLength(bytes, frame) + sideInfoLength(bytes, frame);
+    return { start, length: Math.max(0, frame.offset + frame.length - start) };
+  });
+
+  frames.forEach((frame, index) => {
+    if (!spans.some(span => frame.time < span.end && frame.time + frame.duration > span.start)) return;
+
+    const mainData = readMainData(bytes, frame);
+    let area = index;
+    let position = 0;
+    for (let back = mainData.begin; back > 0 && area > 0;) {
+      area--;
+      if (back <= areas[area].length) {
+        position = areas[area].length - back;
+        back = 0;
+      } else {
+        back -= areas[area].length;
+      }
+    }
+
+    for (let remaining = mainData.length; remaining > 0 && area < areas.length; area++, position = 0) {
+      const cleared = Math.min(remaining, areas[area].length - position);
+      bytes.fill(0, areas[area].start + position, areas[area].start + position + cleared);
+      remaining -= cleared;
+    }
+
+    const sideInfo = frame.offset + headerLength(bytes, frame);
+    bytes.fill(0, sideInfo, sideInfo + sideInfoLength(bytes, frame));
+  });
+  return bytes;
+};
+
+export const renderRedactedAudio = async (
+  audio: Blob,
+  entities: TimeSpan[],
+  mode: AudioRedactionMode
+): Promise<RedactedAudio> => {
+  // A fresh copy of the recording, masked in place and uploaded as it is
+  const bytes = new Uint8Array(await audio.arrayBuffer());
+  const spans = entities.map(entity => ({
+    start: Math.max(0, entity.startTime - SPAN_PADDING_SECONDS),
+    end: entity.endTime + SPAN_PADDING_SECONDS,
+  }));
+
+  const wav = redactWav(bytes, spans, mode);
+  if (wav) {
+    return { bytes: wav, contentType: 'audio/wav', mode, extension: 'wav' };
+  }
+
+  const mp3 = redactMp3(bytes, spans);
+  if (mp3) {
+    return { bytes: mp3, contentType: 'audio/mpeg', mode: 'silence', extension: 'mp3' };
+  }
+
+  throw new Error('Only PCM WAV and MP3 recordings can be redacted');
+};
+
+// Renders the redacted copy and stores it in the call owner's folder next to
+// the original, where `toJobResponse` will sign it for everyone else
+export const createRedactedAudio = async (
+  supabase: AdminClient,
+  call: { id: string; userId: string },
+  audio: Blob,
+  entities: TimeSpan[],
+  mode: AudioRedactionMode
+) => {
+  const redacted = await renderRedactedAudio(audio, entities, mode);
+  const path = `${call.userId}/redacted/${call.id}.${redacted.extension}`;
+  await uploadAudio(supabase, path, redacted.bytes, redacted.contentType);
+
+  const { error } = await supabase
+    .from('transcriptions')
+    .update({ redacted_audio_path: path, redacted_audio_mode: redacted.mode })
+    .eq('id', call.id);
+
+  if (error) {
+    throw new Error(`Failed to register redacted audio: ${error.message}`);
+  }
+
+  return { path, mode: redacted.mode };
+};
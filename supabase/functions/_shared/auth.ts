@@ -0,0 +1,24 @@
+import { AdminClient } from './supabaseAdmin.ts';
+
+export const getBearerToken = (req: Request) =>
+  req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') || null;
+
+// Resolves the user behind the request's bearer token. The token is checked
+// with Supabase Auth, so forged or expired JWTs resolve to null, as do
+// requests made with only the anon key.
+export const getRequestUser = async (req: Request, supabase: AdminClient) => {
+  const token = getBearerToken(req);
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error) return null;
+
+  return data.user;
+};
+
+// Like `getRequestUser`, but anonymous sessions do not count. Everything that
+// spends money or reads call data requires an account.
+export const getSignedInUser = async (req: Request, supabase: AdminClient) => {
+  const user = await getRequestUser(req, supabase);
+  return user && !user.is_anonymous ? user : null;
+};
@@ -0,0 +1,361 @@
+import { modelCallAnalysisSchema } from '../../../src/types/callAnalysisSchema.ts';
+import {
+  AgentSide,
+  AnalysisFailure,
+  CallAnalysis,
+  ModelCallAnalysis,
+  TranscriptSegment,
+} from './types.ts';
+import { AnalysisProvider, ChatMessage } from './llm/index.ts';
+import { formatRubricForPrompt, ResolvedRubric } from './rubrics.ts';
+import { labelSegmentSpeakers } from './speakerLabelling.ts';
+
+// Invalid output is sent back to the model at most this many times
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface AnalyzeCallOptions {
+  agentSide?: AgentSide | null; // declared by the uploader
+  callDate?: Date; // when the call was uploaded; relative deadlines are resolved against it
+}
+
+export type AnalysisOutcome =
+  | { ok: true; analysis: CallAnalysis }
+  | { ok: false; failure: AnalysisFailure };
+
+const formatSegmentsForPrompt = (segments: TranscriptSegment[]) =>
+  segments
+    .map(segment => `[${segment.id}] (${segment.start.toFixed(1)}s-${segment.end.toFixed(1)}s) ${segment.text}`)
+    .join('\n');
+
+// The uploader knows which side the agent was on; the model only has to
+// work out who that is in the conversation
+const formatAgentSideHint = (agentSide: AgentSide | null) => {
+  if (!agentSide) return '';
+  const direction = agentSide === 'caller'
+    ? 'the agent PLACED this call (outbound), so the agent is the speaker who initiated it'
+    : 'the agent ANSWERED this call (inbound), so the agent is the speaker who received it';
+  return `\n   The uploader has declared that ${direction}. Treat this as fact and mention it in that speaker's roleEvidence.`;
+};
+
+// Dates are resolved in UTC; the upload time is the closest we have to when the call happened
+const formatCallDate = (callDate: Date) =>
+  `${callDate.toISOString().slice(0, 10)} (${callDate.toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' })})`;
+
+// Enhanced call analysis with improved scoring precision
+const buildAnalysisPrompt = (
+  segments: TranscriptSegment[],
+  duration: number,
+  rubric: ResolvedRubric,
+  agentSide: AgentSide | null,
+  callDate: Date
+) => {
+  return `
+You are an expert call analysis AI specializing in customer service, sales, and consultation calls. Analyze the following call transcript and provide a comprehensive report with speaker diarization, anomaly detection, and highly precise scoring.
+
+TRANSCRIPT SEGMENTS (one per line as "[segmentId] (start-end) text"):
+${formatSegmentsForPrompt(segments)}
+
+CALL DURATION: ${duration} seconds
+CALL DATE: ${formatCallDate(callDate)}
+
+Return your analysis as a single-line valid JSON object with the following fields:
+- objective: string (brief description of the main purpose/objective of the call)
+- callType: { type: "sales" | "support" | "consultation" | "inquiry" | "complaint" | "follow-up", confidence: number } (the detected call type and your confidence in it from 0.0 to 1.0)
+- speakers: array of { id: string, label: string, role: "agent" | "customer" | "supervisor" | "ivr" | "other", roleConfidence: number, roleEvidence: string } (every distinct participant, with short ids such as "S1", "S2")
+- anomalies: array of { speakerId: string, positive: string[], negative: string[] } (one entry per speaker)
+- conclusion: string (summary of who initiated the call, what was discussed, and the outcome)
+- summaries: { headline: string, paragraph: string, crmNote: { reason: string, resolution: string, nextSteps: string[] } } (the call summarized at three lengths; see SUMMARIES below)
+- suggestions: string[] (actionable suggestions specifically for the agent)
+- score: number (a floating-point value between 0.0 and 10.0 with 0.1 precision, equal to the sum of awardedPoints in scoreBreakdown)
+- scoreReasoning: string (two or three sentences summarising why the call earned this score)
+- scoreBreakdown: array of { category: string, criterion: string, maxPoints: number, awardedPoints: number, justification: string } (exactly one entry per criterion of the scoring rubric below)
+- objections: array of { category: "price" | "timing" | "authority" | "competitor" | "trust" | "need" | "other", summary: string, segmentId: number, responseSegmentId: number | null, handling: "handled" | "partial" | "unhandled", assessment: string } (every objection the customer raised; an empty array when there were none)
+- entities: array of { type: "product" | "price" | "date" | "order_id" | "competitor" | "location", text: string, value: string, currency: string | null, segmentId: number } (named things mentioned on the call; an empty array when there are none)
+- actionItems: array of { owner: "agent" | "customer", description: string, dueText: string | null, dueDate: string | null, segmentId: number } (every commitment made on the call; an empty array when there are none)
+
+ENHANCED ANALYSIS GUIDELINES:
+
+1. SPEAKER DIARIZATION: Identify every participant based on context clues, introductions, initiation patterns, and conversation flow. Warm transfers, supervisor barge-ins, three-way calls and automated IVR prompts each get their own speaker. Label a speaker by name when one is given, otherwise by what they do (e.g. "Customer", "Billing agent"). Segments are attributed to these speakers separately, so only list the speakers here
+
+2. ROLE DETECTION: Decide each speaker's role from what they do, not from who spoke first or who placed the call. Agents introduce themselves with a company or team name, verify identity, quote policies, prices or next steps; customers describe their own problem or need. Outbound sales calls are placed by the agent. Set roleConfidence from 0.0 to 1.0 and give roleEvidence as one sentence citing the segmentIds that show the role.${formatAgentSideHint(agentSide)}
+
+3. CALL TYPE DETECTION: Classify the call into exactly one type and report it in callType:
+   - Sales calls: Product mentions, pricing discussions, closing attempts
+   - Support calls: Problem descriptions, troubleshooting, resolution
+   - Consultation calls: Advice seeking, expert guidance, planning
+   - Inquiry calls: Information gathering, questions, research
+   - Complaint calls: Issues, dissatisfaction, escalation
+   - Follow-up calls: Previous interaction references, status updates
+
+4. PRECISE SCORING CRITERIA (0.0-10.0 with 0.1 precision), using the "${rubric.name}" rubric:
+
+${formatRubricForPrompt(rubric)}
+
+5. SCORING PRECISION REQUIREMENTS:
+   - Use 0.1 precision for scores (e.g., 7.3, 8.7, 9.1, NOT 8.5)
+   - Avoid defaulting to middle-range scores
+   - Calculate based on actual transcript analysis, not examples
+   - Consider call duration impact on scoring
+   - Weight anomalies by their actual impact on call outcome
+
+6. CONTEXT-SPECIFIC ADJUSTMENTS:
+   - Sales calls: Emphasize closing effectiveness, objection handling
+   - Support calls: Focus on problem resolution, customer satisfaction
+   - Consultation calls: Value delivery, expertise demonstration
+   - Multi-language calls: Language proficiency, cultural awareness
+
+7. DURATION OPTIMIZATION:
+   - Short calls (<2 min): Efficiency and directness
+   - Medium calls (2-10 min): Balance of detail and efficiency
+   - Long calls (>10 min): Comprehensive coverage and engagement
+
+8. LANGUAGE SUPPORT: Enhanced handling of Hindi-English code-mixed conversations with cultural context
+
+9. ACTION ITEMS: List every concrete commitment either side made to do something after the call, such as "I'll send the invoice by Friday" or "I'll call back once the payment goes through". Skip things already done during the call and general advice.
+   - owner: the side that committed to it, "agent" or "customer"
+   - description: what will be done, as a short imperative sentence (e.g. "Send the corrected invoice")
+   - dueText: the deadline as it was said (e.g. "by Friday", "tomorrow"), or null when none was given
+   - dueDate: that deadline as YYYY-MM-DD, resolved against the CALL DATE above ("Friday" is the next Friday after the call date), or null when there is no deadline or it is too vague to pin down
+   - segmentId: the segment in which the commitment was made
+
+10. ENTITIES: List every mention of these, once per segment it appears in:
+   - product: a product, plan, service or feature of the agent's company
+   - price: an amount of money, including fees, refunds and balances
+   - date: a specific calendar date or day
+   - order_id: an order, ticket, invoice, booking or reference number
+   - competitor: another company offering similar products
+   - location: a city, address, branch or region
+   For each, text is the mention copied exactly from the segment, and value is its normalized form: the canonical name for products, competitors and locations; the amount as a plain number such as "1499.00" for prices, with currency as its ISO 4217 code (e.g. "INR") or null when unclear; YYYY-MM-DD resolved against the CALL DATE for dates; the identifier without spaces for order_id. Never list redaction markers as entities
+
+11. OBJECTIONS: List every objection the customer raised, on any call type, in the order raised:
+   - category: price (too expensive, budget), timing (not now, call later), authority (needs someone else to decide), competitor (prefers or is comparing another company), trust (doubts the company, product or claims), need (does not see the need), other
+   - summary: one sentence in the customer's terms
+   - segmentId: the segment where the customer raised it
+   - responseSegmentId: the first agent segment that answers it, or null when the agent moved on without answering
+   - handling: "handled" when the reply addressed the concern and the customer accepted it or moved on satisfied, "partial" when the reply acknowledged it but left the concern open, "unhandled" when it was ignored, dismissed or answered poorly
+   - assessment: one sentence explaining the rating
+   Use this list when scoring objection handling in the rubric
+
+12. SUMMARIES: Summarize the call for three different readers, using only what was said on the call:
+   - headline: one line of at most 120 characters for a call list, naming the topic and the outcome (e.g. "Duplicate upgrade charge found, refund promised today")
+   - paragraph: three to five sentences for a manager covering why the customer called, what the agent did, the outcome and anything that needs attention
+   - crmNote.reason: one sentence on why the call happened
+   - crmNote.resolution: one or two sentences on what was resolved or agreed, or why nothing was
+   - crmNote.nextSteps: short imperative follow-ups, matching the action items; an empty array when there are none
+
+13. SCORE BREAKDOWN REQUIREMENT: For every criterion in the rubric, add a scoreBreakdown entry that:
+   - Uses the exact category and criterion names from the rubric
+   - Sets maxPoints to the points listed for that criterion
+   - Awards between 0 and maxPoints with 0.1 precision
+   - Justifies the points with specific evidence from the transcript, including the impact of any anomalies
+
+IMPORTANT: 
+- Calculate score based on actual transcript analysis, not example values
+- Use 0.1 precision for scores (e.g., 7.3, 8.7, 9.1)
+- score must equal the sum of awardedPoints across scoreBreakdown
+- Return only the JSON object, no markdown or extra text
+- Markers such as [REDACTED:phone] stand for personal data removed before analysis; refer to them by type and never guess the value
+`;
+};
+
+// Backends without JSON mode still like to wrap their answer in a code block
+const stripCodeFences = (content: string) =>
+  content.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+
+const validateModelOutput = (content: string): { data?: ModelCallAnalysis; issues: string[] } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFences(content));
+  } catch (error) {
+    return { issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const result = modelCallAnalysisSchema.safeParse(parsed);
+  if (result.success) {
+    return { data: result.data, issues: [] };
+  }
+  return {
+    issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+  };
+};
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+const roundToTenth = (value: number) => Math.round(value * 10) / 10;
+
+// The breakdown has to cover the rubric exactly and add up to the score;
+// the schema alone can't check either.
+const checkScoreBreakdown = (analysis: ModelCallAnalysis, rubric: ResolvedRubric): string[] => {
+  const issues: string[] = [];
+  const rows = new Map(
+    analysis.scoreBreakdown.map(item => [`${normalizeName(item.category)}/${normalizeName(item.criterion)}`, item])
+  );
+  const expected = new Set<string>();
+
+  for (const category of rubric.categories) {
+    for (const criterion of category.criteria) {
+      const key = `${normalizeName(category.name)}/${normalizeName(criterion.name)}`;
+      const item = rows.get(key);
+      expected.add(key);
+
+      if (!item) {
+        issues.push(`scoreBreakdown: missing "${category.name}" / "${criterion.name}"`);
+      } else if (Math.abs(item.maxPoints - criterion.points) > 0.001) {
+        issues.push(`scoreBreakdown: maxPoints for "${criterion.name}" must be ${criterion.points}`);
+      }
+    }
+  }
+
+  for (const [key, item] of rows) {
+    if (!expected.has(key)) {
+      issues.push(`scoreBreakdown: "${item.category}" / "${item.criterion}" is not in the rubric`);
+    }
+  }
+
+  const awarded = analysis.scoreBreakdown.reduce((total, item) => total + item.awardedPoints, 0);
+  if (Math.abs(awarded - analysis.score) > 0.05) {
+    issues.push(`score: ${analysis.score} does not equal the scoreBreakdown total of ${roundToTenth(awarded)}`);
+  }
+
+  return issues;
+};
+
+// Action items must point at a segment that exists
+const checkActionItems = (analysis: ModelCallAnalysis, segments: TranscriptSegment[]): string[] => {
+  const segmentIds = new Set(segments.map(segment => segment.id));
+  return analysis.actionItems.flatMap((item, index) => [
+    ...(segmentIds.has(item.segmentId) ? [] : [`actionItems.${index}: unknown segmentId ${item.segmentId}`]),
+    ...(item.dueDate && Number.isNaN(Date.parse(item.dueDate)) ? [`actionItems.${index}: dueDate ${item.dueDate} is not a real date`] : []),
+  ]);
+};
+
+// Objections and the replies to them must point at real segments, and a
+// reply can only come after the objection
+const checkObjections = (analysis: ModelCallAnalysis, segments: TranscriptSegment[]): string[] => {
+  const segmentIds = new Set(segments.map(segment => segment.id));
+  return analysis.objections.flatMap((objection, index) => {
+    const issues: string[] = [];
+    if (!segmentIds.has(objection.segmentId)) {
+      issues.push(`objections.${index}: unknown segmentId ${objection.segmentId}`);
+    }
+    if (objection.responseSegmentId !== null) {
+      if (!segmentIds.has(objection.responseSegmentId)) {
+        issues.push(`objections.${index}: unknown responseSegmentId ${objection.responseSegmentId}`);
+      } else if (objection.responseSegmentId <= objection.segmentId) {
+        issues.push(`objections.${index}: responseSegmentId must come after segmentId`);
+      }
+    }
+    if (objection.responseSegmentId === null && objection.handling !== 'unhandled') {
+      issues.push(`objections.${index}: an objection without a response must be "unhandled"`);
+    }
+    return issues;
+  });
+};
+
+// Entity mentions are highlighted in the transcript, so each one has to be
+// found verbatim in the segment it points at
+const checkEntities = (analysis: ModelCallAnalysis, segments: TranscriptSegment[]): string[] => {
+  const textById = new Map(segments.map(segment => [segment.id, segment.text.toLowerCase()]));
+  return analysis.entities.flatMap((entity, index) => {
+    const text = textById.get(entity.segmentId);
+    if (text === undefined) return [`entities.${index}: unknown segmentId ${entity.segmentId}`];
+    return text.includes(entity.text.toLowerCase())
+      ? []
+      : [`entities.${index}: "${entity.text}" does not appear in segment ${entity.segmentId}`];
+  });
+};
+
+// Anomalies must point at a declared speaker
+const checkSpeakerReferences = (analysis: ModelCallAnalysis): string[] => {
+  const issues: string[] = [];
+  const speakerIds = new Set(analysis.speakers.map(speaker => speaker.id));
+
+  if (speakerIds.size !== analysis.speakers.length) {
+    issues.push('speakers: ids must be unique');
+  }
+  for (const anomalies of analysis.anomalies) {
+    if (!speakerIds.has(anomalies.speakerId)) {
+      issues.push(`anomalies: unknown speaker "${anomalies.speakerId}"`);
+    }
+  }
+
+  return issues;
+};
+
+const buildRepairPrompt = (issues: string[]) => `
+Your previous response did not match the required format:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Return the complete corrected JSON object with every required field. Return only the JSON object, no markdown or extra text.
+`;
+
+export const analyzeCall = async (
+  segments: TranscriptSegment[],
+  duration: number,
+  rubric: ResolvedRubric,
+  provider: AnalysisProvider,
+  { agentSide = null, callDate = new Date() }: AnalyzeCallOptions = {}
+): Promise<AnalysisOutcome> => {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'You are a professional call analysis expert specializing in comprehensive call evaluation with speaker diarization. Always respond with valid JSON that matches the exact format requested.' },
+    { role: 'user', content: buildAnalysisPrompt(segments, duration, rubric, agentSide, callDate) }
+  ];
+  const attempts = 1 + MAX_REPAIR_ATTEMPTS;
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const content = await provider.complete(messages, {
+      temperature: 0.2,
+      maxTokens: 4000,
+      jsonMode: true,
+      purpose: 'call-analysis',
+    });
+
+    console.log(`Raw analysis response (${provider.name}/${provider.model}, attempt ${attempt}):`, content);
+
+    const result = validateModelOutput(content);
+    issues = result.data
+      ? [
+        ...checkSpeakerReferences(result.data),
+        ...checkScoreBreakdown(result.data, rubric),
+        ...checkActionItems(result.data, segments),
+        ...checkEntities(result.data, segments),
+        ...checkObjections(result.data, segments),
+      ]
+      : result.issues;
+
+    if (result.data && issues.length === 0) {
+      const modelAnalysis = result.data;
+      const score = roundToTenth(
+        modelAnalysis.scoreBreakdown.reduce((total, item) => total + item.awardedPoints, 0)
+      );
+
+      // Log the parsed score for debugging
+      console.log('Parsed score:', score, 'Reasoning:', modelAnalysis.scoreReasoning);
+
+      return {
+        ok: true,
+        analysis: {
+          ...modelAnalysis,
+          score,
+          transcript: await labelSegmentSpeakers(segments, modelAnalysis.speakers, provider),
+        },
+      };
+    }
+
+    console.warn(`Analysis attempt ${attempt} failed validation:`, issues);
+    messages.push(
+      { role: 'assistant', content },
+      { role: 'user', content: buildRepairPrompt(issues) }
+    );
+  }
+
+  return {
+    ok: false,
+    failure: {
+      reason: 'The analysis model did not return a valid call analysis',
+      issues,
+      attempts,
+    },
+  };
+};
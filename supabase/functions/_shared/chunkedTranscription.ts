@@ -0,0 +1,127 @@
+import { AudioChunk, splitAudio } from './audioChunks.ts';
+import { SpeechToTextProvider, SpeechToTextResult, TranscriptWord } from './stt/index.ts';
+import { TranscriptSegment } from './types.ts';
+
+const CHUNK_OVERLAP_SECONDS = 3;
+const DEFAULT_CONCURRENCY = 3;
+
+// Do not set language, let the model auto-detect (supports English, Hindi, Tamil)
+const TRANSCRIPTION_PROMPT = 'Transcribe accurately. Audio may contain English, Hindi, Tamil, or a mix. For introductions, prefer "This is" if context matches.';
+
+// Whisper only reads the last 224 tokens of a prompt; stay well inside that
+const MAX_VOCABULARY_PROMPT_CHARS = 600;
+
+// Spelled-out vocabulary nudges the model towards the organization's product,
+// plan and agent names. Terms past the budget are left to post-processing.
+export const buildTranscriptionPrompt = (vocabulary: string[] = []) => {
+  const included: string[] = [];
+  let length = 0;
+  for (const term of vocabulary) {
+    if (length + term.length + 2 > MAX_VOCABULARY_PROMPT_CHARS) break;
+    included.push(term);
+    length += term.length + 2;
+  }
+
+  return included.length > 0
+    ? `${TRANSCRIPTION_PROMPT} Vocabulary: ${included.join(', ')}.`
+    : TRANSCRIPTION_PROMPT;
+};
+
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// Each chunk owns the audio up to the midpoint of its overlap with the
+// neighbours; segments and words are kept by whichever chunk owns their
+// midpoint, so speech inside an overlap is neither dropped nor duplicated.
+export const stitchTranscriptions = (
+  chunks: AudioChunk[],
+  results: SpeechToTextResult[]
+): SpeechToTextResult => {
+  const segments: TranscriptSegment[] = [];
+  const words: TranscriptWord[] = [];
+
+  results.forEach((result, i) => {
+    const chunk = chunks[i];
+    const ownStart = i === 0 ? -Infinity : (chunk.offset + chunks[i - 1].end) / 2;
+    const ownEnd = i === chunks.length - 1 ? Infinity : (chunks[i + 1].offset + chunk.end) / 2;
+    const owns = (start: number, end: number) => {
+      const midpoint = (start + end) / 2;
+      return midpoint >= ownStart && midpoint < ownEnd;
+    };
+
+    for (const segment of result.segments) {
+      const start = segment.start + chunk.offset;
+      const end = segment.end + chunk.offset;
+      if (owns(start, end)) {
+        segments.push({ id: segments.length, start, end, text: segment.text });
+      }
+    }
+
+    for (const word of result.words) {
+      const start = word.start + chunk.offset;
+      const end = word.end + chunk.offset;
+      if (owns(start, end)) {
+        words.push({ word: word.word, start, end });
+      }
+    }
+  });
+
+  const lastChunk = chunks[chunks.length - 1];
+  const lastResult = results[results.length - 1];
+
+  return {
+    text: segments.length > 0
+      ? segments.map(segment => segment.text).join(' ')
+      : results.map(result => result.text).join(' '),
+    language: results.find(result => result.language)?.language || null,
+    duration: lastChunk.offset + (lastResult?.duration || 0),
+    segments,
+    words,
+  };
+};
+
+export const transcribeRecording = async (
+  provider: SpeechToTextProvider,
+  audio: Blob,
+  fileName: string,
+  vocabulary: string[] = []
+): Promise<SpeechToTextResult> => {
+  const options = { fileName, prompt: buildTranscriptionPrompt(vocabulary) };
+
+  if (provider.maxUploadBytes === null) {
+    return provider.transcribe(audio, options);
+  }
+
+  const chunks = await splitAudio(audio, fileName, {
+    maxChunkBytes: provider.maxUploadBytes,
+    overlapSeconds: CHUNK_OVERLAP_SECONDS,
+  });
+
+  if (chunks.length === 1) {
+    return provider.transcribe(audio, options);
+  }
+
+  const concurrency = Number(Deno.env.get('TRANSCRIPTION_CONCURRENCY')) || DEFAULT_CONCURRENCY;
+  const extension = chunks[0].blob.type === 'audio/wav' ? 'wav' : 'mp3';
+
+  const results = await mapWithConcurrency(chunks, concurrency, (chunk) => {
+    console.log(`Transcribing chunk ${chunk.index + 1}/${chunks.length} (from ${chunk.offset.toFixed(1)}s)`);
+    return provider.transcribe(chunk.blob, { ...options, fileName: `${fileName}.part${chunk.index}.${extension}` });
+  });
+
+  return stitchTranscriptions(chunks, results);
+};
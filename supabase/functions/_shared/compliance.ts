@@ -0,0 +1,164 @@
+import { AdminClient } from './supabaseAdmin.ts';
+import { complianceRulesSchema } from '../../../src/types/complianceSchema.ts';
+import type {
+  ComplianceCheck,
+  ComplianceEvidence,
+  ComplianceResult,
+  ComplianceRule,
+  ComplianceWindow,
+} from '../../../src/types/complianceSchema.ts';
+import { CallAnalysis, SpeakerSegment } from './types.ts';
+
+export interface ResolvedComplianceRules {
+  version: number;
+  rules: ComplianceRule[];
+}
+
+export const loadComplianceRules = async (
+  supabase: AdminClient,
+  organizationId: string | null
+): Promise<ResolvedComplianceRules | null> => {
+  if (!organizationId) return null;
+
+  const { data, error } = await supabase
+    .from('compliance_rule_sets')
+    .select('version, rules')
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load compliance rules: ${error.message}`);
+  }
+  if (!data) return null;
+
+  const rules = complianceRulesSchema.safeParse(data.rules);
+  if (!rules.success) {
+    console.warn(`Ignoring invalid compliance rules v${data.version}:`, rules.error.issues[0]?.message);
+    return null;
+  }
+  if (rules.data.length === 0) return null;
+
+  return { version: data.version, rules: rules.data };
+};
+
+// Case, punctuation and spacing differ between speech-to-text runs, so both
+// sides are reduced to lower-case words separated by single spaces
+const normalizePhrase = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// A speaker often finishes a sentence in the next segment ("this call is
+// recorded" / "for quality purposes"), so phrases are matched against each
+// turn: the speaker's consecutive segments joined together. `offsets` holds
+// where each segment starts in the normalized text.
+interface Turn {
+  speakerId: string;
+  segments: SpeakerSegment[];
+  text: string;
+  offsets: number[];
+}
+
+const toTurns = (segments: SpeakerSegment[]): Turn[] => {
+  const turns: Turn[] = [];
+  for (const segment of segments) {
+    const words = normalizePhrase(segment.text);
+    if (!words) continue;
+    const last = turns[turns.length - 1];
+    if (last && last.speakerId === segment.speakerId) {
+      last.offsets.push(last.text.length + 1);
+      last.text = `${last.text} ${words}`;
+      last.segments.push(segment);
+    } else {
+      turns.push({ speakerId: segment.speakerId, segments: [segment], text: words, offsets: [0] });
+    }
+  }
+  return turns;
+};
+
+// Index of the segment the character at `position` belongs to
+const segmentAt = (turn: Turn, position: number) => {
+  let index = 0;
+  while (index + 1 < turn.offsets.length && turn.offsets[index + 1] <= position) index++;
+  return index;
+};
+
+// A phrase is in the window when it starts inside a start window or ends
+// inside an end window
+const isInWindow = (
+  first: SpeakerSegment,
+  last: SpeakerSegment,
+  window: ComplianceWindow | undefined,
+  duration: number
+) => {
+  if (!window) return true;
+  return window.anchor === 'start'
+    ? first.start < window.seconds
+    : last.end > duration - window.seconds;
+};
+
+const evaluateRule = (
+  rule: ComplianceRule,
+  turns: Turn[],
+  duration: number
+): ComplianceCheck => {
+  const evidence: ComplianceEvidence[] = [];
+  for (const turn of turns) {
+    const padded = ` ${turn.text} `;
+    // One entry per segment a phrase starts in, like a reviewer would cite it
+    const cited = new Set<number>();
+    for (const phrase of rule.phrases) {
+      const words = normalizePhrase(phrase);
+      if (!words) continue;
+      for (let at = padded.indexOf(` ${words} `); at !== -1; at = padded.indexOf(` ${words} `, at + 1)) {
+        const first = segmentAt(turn, at);
+        if (cited.has(first)) continue;
+        cited.add(first);
+        const last = segmentAt(turn, at + words.length - 1);
+        evidence.push({
+          segmentId: turn.segments[first].id,
+          start: turn.segments[first].start,
+          phrase,
+          inWindow: isInWindow(turn.segments[first], turn.segments[last], rule.window, duration),
+        });
+      }
+    }
+  }
+  evidence.sort((a, b) => a.start - b.start);
+
+  const heardInWindow = evidence.some(entry => entry.inWindow);
+  return {
+    ruleId: rule.id,
+    name: rule.name,
+    kind: rule.kind,
+    window: rule.window,
+    status: (rule.kind === 'required') === heardInWindow ? 'passed' : 'failed',
+    // A forbidden phrase outside its window is allowed and not worth showing
+    evidence: rule.kind === 'forbidden' ? evidence.filter(entry => entry.inWindow) : evidence,
+  };
+};
+
+// Checks every rule against the speakers' turns. Matching is exact on the
+// normalized words: paraphrases only count when listed on the rule.
+export const evaluateCompliance = (
+  ruleSet: ResolvedComplianceRules,
+  analysis: CallAnalysis,
+  duration: number
+): ComplianceResult => {
+  const roleBySpeaker = new Map(analysis.speakers.map(speaker => [speaker.id, speaker.role]));
+  const turns = toTurns([...analysis.transcript].sort((a, b) => a.start - b.start));
+  const checks = ruleSet.rules.map(rule => {
+    const spoken = rule.speakerRole
+      ? turns.filter(turn => roleBySpeaker.get(turn.speakerId) === rule.speakerRole)
+      : turns;
+    return evaluateRule(rule, spoken, duration);
+  });
+
+  return {
+    version: ruleSet.version,
+    status: checks.every(check => check.status === 'passed') ? 'passed' : 'failed',
+    checks,
+  };
+};
@@ -0,0 +1,47 @@
+export const corsHeaders = {
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Comma-separated origins allowed to call the functions from a browser, e.g.
+// `https://app.example.com,http://localhost:8080`. Unset allows any origin,
+// which is only meant for local development.
+const getAllowedOrigins = () =>
+  (Deno.env.get('ALLOWED_ORIGINS') || '')
+    .split(',')
+    .map(origin => origin.trim().replace(/\/+$/, ''))
+    .filter(Boolean);
+
+export const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      ...headers
+    },
+  });
+
+// Wraps a function handler: answers preflight requests, refuses browsers on
+// origins that are not configured, and echoes the allowed origin back. Requests
+// without an Origin header (server to server) are not subject to CORS.
+export const withCors = (handler: (req: Request) => Promise<Response>) =>
+  async (req: Request): Promise<Response> => {
+    const origin = req.headers.get('Origin');
+    const allowedOrigins = getAllowedOrigins();
+    const allowOrigin = allowedOrigins.length === 0 ? '*' : origin && allowedOrigins.includes(origin) ? origin : null;
+
+    if (origin && !allowOrigin) {
+      console.warn(`Rejected request from origin ${origin}`);
+      return jsonResponse({ error: 'Origin not allowed' }, 403);
+    }
+
+    const response = req.method === 'OPTIONS'
+      ? new Response(null, { headers: corsHeaders })
+      : await handler(req);
+
+    if (allowOrigin) {
+      response.headers.set('Access-Control-Allow-Origin', allowOrigin);
+      if (allowOrigin !== '*') response.headers.append('Vary', 'Origin');
+    }
+    return response;
+  };
@@ -0,0 +1,102 @@
+import { AdminClient } from './supabaseAdmin.ts';
+import { glossaryTermsSchema } from '../../../src/types/glossarySchema.ts';
+import type { GlossaryTerm } from '../../../src/types/glossarySchema.ts';
+import { TranscriptSegment } from './types.ts';
+
+export interface ResolvedGlossary {
+  version: number;
+  terms: GlossaryTerm[];
+}
+
+export const loadGlossary = async (
+  supabase: AdminClient,
+  organizationId: string | null
+): Promise<ResolvedGlossary | null> => {
+  if (!organizationId) return null;
+
+  const { data, error } = await supabase
+    .from('glossaries')
+    .select('version, terms')
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load glossary: ${error.message}`);
+  }
+  if (!data) return null;
+
+  // The editor validates on save; a row edited by hand should not fail the call
+  const terms = glossaryTermsSchema.safeParse(data.terms);
+  if (!terms.success) {
+    console.warn(`Ignoring invalid glossary v${data.version}:`, terms.error.issues[0]?.message);
+    return null;
+  }
+
+  return { version: data.version, terms: terms.data };
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whisper has no pronunciation field, so a term's phonetic spelling travels in
+// the prompt next to it: "Vocalytics (pronounced voh-kuh-lit-iks)"
+export const formatGlossaryVocabulary = (terms: GlossaryTerm[]) =>
+  terms.map(term => term.pronunciation ? `${term.term} (pronounced ${term.pronunciation})` : term.term);
+
+interface Normalizer {
+  canonical: Map<string, string>; // lower-cased spelling -> glossary term
+  pattern: RegExp;
+}
+
+// A single case-insensitive alternation over every term's own spelling (to fix
+// its casing), aliases and phonetic spelling, longest first. Each stretch of
+// text is rewritten at most once, so one term's output is never picked up by
+// another term whose alias is a substring of it, and "pro plan" wins over "pro".
+const buildNormalizer = (terms: GlossaryTerm[]): Normalizer | null => {
+  const canonical = new Map<string, string>();
+  for (const term of terms) {
+    for (const spelling of [term.term, ...term.aliases, ...(term.pronunciation ? [term.pronunciation] : [])]) {
+      canonical.set(spelling.toLowerCase(), term.term);
+    }
+  }
+  if (canonical.size === 0) return null;
+
+  const spellings = [...canonical.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  return {
+    canonical,
+    pattern: new RegExp(`(?<![\\p{L}\\p{N}])(?:${spellings.join('|')})(?![\\p{L}\\p{N}])`, 'giu'),
+  };
+};
+
+const normalizeText = (text: string, normalizer: Normalizer | null) =>
+  normalizer
+    ? text.replace(normalizer.pattern, match => normalizer.canonical.get(match.toLowerCase()) ?? match)
+    : text;
+
+export interface NormalizedTranscript {
+  transcript: string;
+  segments: TranscriptSegment[];
+  changedSegments: number;
+}
+
+// Rewrites known misspellings in the transcript and its segments to the
+// glossary spelling. Word timestamps are left as recognised.
+export const normalizeTranscript = (
+  transcript: string,
+  segments: TranscriptSegment[],
+  glossary: ResolvedGlossary
+): NormalizedTranscript => {
+  const normalizer = buildNormalizer(glossary.terms);
+  let changedSegments = 0;
+
+  const normalizedSegments = segments.map(segment => {
+    const text = normalizeText(segment.text, normalizer);
+    if (text !== segment.text) changedSegments++;
+    return text === segment.text ? segment : { ...segment, text };
+  });
+
+  return {
+    transcript: normalizeText(transcript, normalizer),
+    segments: normalizedSegments,
+    changedSegments,
+  };
+};
@@ -0,0 +1,176 @@
+import { languageTaggingSchema } from '../../../src/types/languageSchema.ts';
+import type { LanguageMix, LanguageShare, SegmentLanguage } from '../../../src/types/languageSchema.ts';
+import { AnalysisProvider, ChatMessage } from './llm/index.ts';
+import { TranscriptSegment } from './types.ts';
+
+// Segments per tagging request; keeps translations well inside the token limit
+const LANGUAGE_BATCH_SIZE = 40;
+// Extra requests per batch when the tags do not cover every segment exactly once
+const MAX_TAGGING_RETRIES = 1;
+
+export interface LanguageTagging {
+  segments: SegmentLanguage[];
+  mix: LanguageMix;
+}
+
+const buildLanguagePrompt = (segments: TranscriptSegment[]) => `
+Identify the language(s) spoken in each call transcript segment below and translate non-English segments into English.
+
+SEGMENTS (one per line as "[segmentId] text"):
+${segments.map(segment => `[${segment.id}] ${segment.text}`).join('\n')}
+
+Return a JSON object { "segments": [...] } with exactly one entry per segment:
+- segmentId: number (as shown in brackets)
+- languages: array of { code: string, share: number } (ISO 639-1 codes such as "en", "hi", "ta"; share is the fraction of the segment's words in that language; shares add up to 1; largest share first)
+- translation: string (natural English translation of the whole segment; omit this field when the segment is entirely English)
+
+Romanised Hindi or Tamil (e.g. "haan, bill mein extra charge hai") is still Hindi or Tamil, not English. English loanwords used inside a Hindi or Tamil sentence count as English.
+Return only the JSON object, no markdown or extra text.
+`;
+
+// Used when the model output is unusable: guesses from the writing system,
+// which catches Devanagari and Tamil script but not romanised speech.
+const SCRIPT_LANGUAGES: [RegExp, string][] = [
+  [/[\u0900-\u097F]/g, 'hi'], // Devanagari
+  [/[\u0B80-\u0BFF]/g, 'ta'], // Tamil
+  [/[A-Za-z]/g, 'en'],
+];
+
+const detectScriptLanguages = (segment: TranscriptSegment): SegmentLanguage => {
+  const counts = SCRIPT_LANGUAGES
+    .map(([pattern, code]) => ({ code, count: segment.text.match(pattern)?.length || 0 }))
+    .filter(entry => entry.count > 0);
+  const total = counts.reduce((sum, entry) => sum + entry.count, 0);
+
+  return {
+    segmentId: segment.id,
+    languages: total > 0
+      ? counts
+        .sort((a, b) => b.count - a.count)
+        .map(entry => ({ code: entry.code, share: entry.count / total }))
+      : [{ code: 'und', share: 1 }],
+  };
+};
+
+const stripCodeFences = (content: string) =>
+  content.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+
+// Every segment of the batch must be tagged exactly once. Missing or
+// misnumbered entries would otherwise fall back to script detection unnoticed,
+// counting romanised Hindi or Tamil as English.
+const checkCoverage = (tags: SegmentLanguage[], segments: TranscriptSegment[]): string[] => {
+  const expected = new Set(segments.map(segment => segment.id));
+  const seen = new Set<number>();
+  const issues: string[] = [];
+
+  for (const tag of tags) {
+    if (!expected.has(tag.segmentId)) {
+      issues.push(`segmentId ${tag.segmentId} is not one of the segments in this request`);
+    } else if (seen.has(tag.segmentId)) {
+      issues.push(`segmentId ${tag.segmentId} is tagged more than once`);
+    }
+    seen.add(tag.segmentId);
+  }
+  const missing = [...expected].filter(id => !seen.has(id));
+  if (missing.length > 0) {
+    issues.push(`segments ${missing.join(', ')} are missing`);
+  }
+
+  return issues;
+};
+
+const parseTags = (content: string): { tags: SegmentLanguage[]; issues: string[] } => {
+  try {
+    const result = languageTaggingSchema.safeParse(JSON.parse(stripCodeFences(content)));
+    if (!result.success) {
+      return { tags: [], issues: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`) };
+    }
+    return { tags: result.data.segments, issues: [] };
+  } catch (error) {
+    return { tags: [], issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+};
+
+const tagBatch = async (segments: TranscriptSegment[], provider: AnalysisProvider): Promise<SegmentLanguage[]> => {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'You are a multilingual linguist who tags languages in call transcripts and translates them into English. Always respond with valid JSON.' },
+    { role: 'user', content: buildLanguagePrompt(segments) },
+  ];
+  const segmentIds = new Set(segments.map(segment => segment.id));
+  let tags: SegmentLanguage[] = [];
+
+  try {
+    for (let attempt = 1; attempt <= 1 + MAX_TAGGING_RETRIES; attempt++) {
+      const content = await provider.complete(messages, {
+        temperature: 0,
+        maxTokens: 4000,
+        jsonMode: true,
+        purpose: 'language-tagging',
+      });
+
+      const parsed = parseTags(content);
+      const issues = parsed.issues.length > 0 ? parsed.issues : checkCoverage(parsed.tags, segments);
+      if (parsed.tags.length > 0 || tags.length === 0) tags = parsed.tags;
+      if (issues.length === 0) return tags;
+
+      console.warn(`Language tagging attempt ${attempt} was incomplete:`, issues);
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: `Your response had these problems:\n${issues.map(issue => `- ${issue}`).join('\n')}\nReturn the complete JSON object again with exactly one entry for each segmentId listed.` }
+      );
+    }
+  } catch (error) {
+    console.warn('Language tagging request failed:', error);
+  }
+
+  // Keep whatever the model tagged correctly; only the rest is guessed from the script
+  const tagsById = new Map<number, SegmentLanguage>();
+  for (const tag of tags) {
+    if (segmentIds.has(tag.segmentId) && !tagsById.has(tag.segmentId)) tagsById.set(tag.segmentId, tag);
+  }
+  const fallbacks = segments.filter(segment => !tagsById.has(segment.id));
+  console.warn(`Language tagging fell back to script detection for ${fallbacks.length} of ${segments.length} segment(s): ${fallbacks.map(segment => segment.id).join(', ')}`);
+
+  return segments.map(segment => tagsById.get(segment.id) || detectScriptLanguages(segment));
+};
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+// Word-weighted language shares for the whole call. The code-mixing ratio is
+// the word-weighted share of each segment not in its dominant language.
+const summarizeLanguageMix = (segments: TranscriptSegment[], tags: SegmentLanguage[]): LanguageMix => {
+  const wordsById = new Map(segments.map(segment => [segment.id, countWords(segment.text)]));
+  const wordsByLanguage = new Map<string, number>();
+  let totalWords = 0;
+  let mixedWords = 0;
+
+  for (const tag of tags) {
+    const words = wordsById.get(tag.segmentId) || 0;
+    totalWords += words;
+    mixedWords += words * (1 - Math.max(...tag.languages.map(language => language.share)));
+    for (const language of tag.languages) {
+      wordsByLanguage.set(language.code, (wordsByLanguage.get(language.code) || 0) + words * language.share);
+    }
+  }
+
+  const languages: LanguageShare[] = [...wordsByLanguage.entries()]
+    .map(([code, words]) => ({ code, share: totalWords ? words / totalWords : 0 }))
+    .sort((a, b) => b.share - a.share);
+
+  return {
+    languages,
+    codeMixingRatio: totalWords ? mixedWords / totalWords : 0,
+  };
+};
+
+export const tagSegmentLanguages = async (
+  segments: TranscriptSegment[],
+  provider: AnalysisProvider
+): Promise<LanguageTagging> => {
+  const tags: SegmentLanguage[] = [];
+  for (let start = 0; start < segments.length; start += LANGUAGE_BATCH_SIZE) {
+    tags.push(...await tagBatch(segments.slice(start, start + LANGUAGE_BATCH_SIZE), provider));
+  }
+
+  return { segments: tags, mix: summarizeLanguageMix(segments, tags) };
+};
@@ -0,0 +1,25 @@
+import { AnalysisProvider } from './types.ts';
+import { requestChatCompletion } from './chatCompletions.ts';
+
+export interface AzureOpenAIConfig {
+  endpoint: string; // https://<resource>.openai.azure.com
+  deployment: string;
+  apiVersion: string;
+  apiKey: string;
+}
+
+export const createAzureOpenAIAnalysis = (config: AzureOpenAIConfig): AnalysisProvider => ({
+  name: 'azure',
+  model: config.deployment,
+
+  complete(messages, options) {
+    const endpoint = config.endpoint.replace(/\/$/, '');
+    return requestChatCompletion(
+      `${endpoint}/openai/deployments/${config.deployment}/chat/completions?api-version=${config.apiVersion}`,
+      { 'api-key': config.apiKey },
+      {},
+      messages,
+      options
+    );
+  },
+});
@@ -0,0 +1,37 @@
+import { ChatMessage, CompletionOptions } from './types.ts';
+
+// Shared by every backend that speaks the OpenAI chat completions API
+export const requestChatCompletion = async (
+  url: string,
+  headers: Record<string, string>,
+  body: Record<string, unknown>,
+  messages: ChatMessage[],
+  options: CompletionOptions = {}
+): Promise<string> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      ...headers,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      ...body,
+      messages,
+      temperature: options.temperature ?? 0.2,
+      max_tokens: options.maxTokens ?? 3000,
+      ...(options.jsonMode ? { response_format: { type: 'json_object' } } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    console.error('Analysis API error:', await response.text());
+    throw new Error(`Analysis API error: ${response.status}`);
+  }
+
+  const result = await response.json();
+  const content = result.choices?.[0]?.message?.content;
+  if (typeof content !== 'string') {
+    throw new Error('Analysis API returned no message content');
+  }
+  return content;
+};
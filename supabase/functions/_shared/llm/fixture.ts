@@ -0,0 +1,132 @@
+import { AnalysisProvider } from './types.ts';
+
+// Canned model output for the fixture speech-to-text call (segments 0-5)
+const FIXTURE_ANALYSIS = {
+  objective: 'Customer called support about an unexpected charge on this month\'s invoice',
+  callType: { type: 'support', confidence: 0.92 },
+  speakers: [
+    {
+      id: 'S1',
+      label: 'Priya',
+      role: 'agent',
+      roleConfidence: 0.97,
+      roleEvidence: 'Greets the caller on behalf of support in segment 0 and verifies the account in segment 2',
+    },
+    {
+      id: 'S2',
+      label: 'Ravi',
+      role: 'customer',
+      roleConfidence: 0.95,
+      roleEvidence: 'Describes a charge on their own invoice in segment 1',
+    },
+  ],
+  anomalies: [
+    {
+      speakerId: 'S1',
+      positive: ['Professional greeting with name', 'Verified the account before discussing it', 'Committed to a same-day refund'],
+      negative: ['Did not explain why the duplicate charge happened'],
+    },
+    {
+      speakerId: 'S2',
+      positive: ['Clearly described the billing problem'],
+      negative: [],
+    },
+  ],
+  conclusion: 'The customer reported an unexpected charge. The agent verified the account, found a duplicate charge from a plan upgrade and promised a refund today.',
+  summaries: {
+    headline: 'Duplicate plan upgrade charge found, refund promised today',
+    paragraph: 'Ravi called about an unexpected charge on this month\'s invoice. Priya verified the account by email and found a duplicate charge from a plan upgrade. She committed to refunding it the same day and Ravi was satisfied. The cause of the duplicate charge was not explained and no refund reference was given.',
+    crmNote: {
+      reason: 'Customer queried an unexpected charge on this month\'s invoice.',
+      resolution: 'Duplicate plan upgrade charge confirmed; refund committed for today.',
+      nextSteps: ['Refund the duplicate plan upgrade charge'],
+    },
+  },
+  suggestions: ['Explain the root cause of billing errors so the customer knows it will not recur', 'Confirm the refund timeline and reference number before closing'],
+  score: 8.3,
+  scoreReasoning: 'A courteous, efficient call that resolved the billing issue on the first contact. Points were lost for not explaining the root cause and for closing without a refund reference.',
+  // The customer accepts the refund without pushing back
+  objections: [],
+  entities: [
+    { type: 'product', text: 'plan upgrade', value: 'Plan upgrade', currency: null, segmentId: 4 },
+  ],
+  // The recording has no real date, so "today" is left unresolved
+  actionItems: [
+    { owner: 'agent', description: 'Refund the duplicate plan upgrade charge', dueText: 'today', dueDate: null, segmentId: 4 },
+  ],
+  scoreBreakdown: [
+    { category: 'Communication Excellence', criterion: 'Clarity and articulation', maxPoints: 0.5, awardedPoints: 0.5, justification: 'Both sides stated the problem and next steps plainly' },
+    { category: 'Communication Excellence', criterion: 'Professional tone and courtesy', maxPoints: 0.5, awardedPoints: 0.5, justification: 'Agent greeted by name and stayed courteous throughout' },
+    { category: 'Communication Excellence', criterion: 'Language proficiency and fluency', maxPoints: 0.5, awardedPoints: 0.4, justification: 'Fluent, with a few filler phrases' },
+    { category: 'Communication Excellence', criterion: 'Voice modulation and pace', maxPoints: 0.5, awardedPoints: 0.4, justification: 'Steady pace; explanation of the charge was slightly rushed' },
+    { category: 'Communication Excellence', criterion: 'Active listening and responsiveness', maxPoints: 0.5, awardedPoints: 0.4, justification: 'Agent acted on the reported charge without asking the customer to repeat it' },
+    { category: 'Objective Achievement', criterion: 'Call purpose identification', maxPoints: 0.3, awardedPoints: 0.3, justification: 'Billing issue identified in the customer\'s first turn' },
+    { category: 'Objective Achievement', criterion: 'Goal accomplishment', maxPoints: 0.7, awardedPoints: 0.6, justification: 'Refund promised for the duplicate charge' },
+    { category: 'Objective Achievement', criterion: 'Problem resolution effectiveness', maxPoints: 0.5, awardedPoints: 0.5, justification: 'Duplicate charge found and resolved in a single call' },
+    { category: 'Objective Achievement', criterion: 'Outcome quality and satisfaction', maxPoints: 0.5, awardedPoints: 0.4, justification: 'Customer accepted the outcome but root cause was not explained' },
+    { category: 'Engagement and Interaction', criterion: 'Conversation flow and structure', maxPoints: 0.5, awardedPoints: 0.4, justification: 'Logical flow from verification to resolution' },
+    { category: 'Engagement and Interaction', criterion: 'Question quality and relevance', maxPoints: 0.4, awardedPoints: 0.4, justification: 'Verification questions were relevant and brief' },
+    { category: 'Engagement and Interaction', criterion: 'Response appropriateness', maxPoints: 0.3, awardedPoints: 0.3, justification: 'Responses matched the customer\'s concern' },
+    { category: 'Engagement and Interaction', criterion: 'Engagement maintenance', maxPoints: 0.3, awardedPoints: 0.2, justification: 'Little rapport beyond the transaction' },
+    { category: 'Anomaly Impact Assessment', criterion: 'Positive behavior impact', maxPoints: 0.8, awardedPoints: 0.7, justification: 'Account verification and a same-day refund commitment' },
+    { category: 'Anomaly Impact Assessment', criterion: 'Negative behavior mitigation', maxPoints: 0.7, awardedPoints: 0.5, justification: 'Moderate: no explanation of why the duplicate charge happened' },
+    { category: 'Context-Aware Factors', criterion: 'Call type appropriateness', maxPoints: 0.3, awardedPoints: 0.3, justification: 'Handled as a standard billing support call' },
+    { category: 'Context-Aware Factors', criterion: 'Duration optimization', maxPoints: 0.3, awardedPoints: 0.2, justification: 'Short call; could have spent a moment on the root cause' },
+    { category: 'Context-Aware Factors', criterion: 'Industry-specific considerations', maxPoints: 0.3, awardedPoints: 0.2, justification: 'Refund timeline given but not the payment method' },
+    { category: 'Context-Aware Factors', criterion: 'Language complexity handling', maxPoints: 0.3, awardedPoints: 0.2, justification: 'Plain English, no complexity to manage' },
+    { category: 'Context-Aware Factors', criterion: 'Cultural sensitivity', maxPoints: 0.3, awardedPoints: 0.2, justification: 'Polite, neutral exchange' },
+    { category: 'Technical Excellence', criterion: 'Call structure and organization', maxPoints: 0.4, awardedPoints: 0.3, justification: 'Clear opening and resolution, abrupt close' },
+    { category: 'Technical Excellence', criterion: 'Time management', maxPoints: 0.3, awardedPoints: 0.3, justification: 'Resolved in about thirty seconds' },
+    { category: 'Technical Excellence', criterion: 'Follow-up planning', maxPoints: 0.3, awardedPoints: 0.1, justification: 'No refund reference number or follow-up offered' },
+  ],
+};
+
+// The agent opens the call and the two then take turns
+const FIXTURE_SPEAKER_LABELS = {
+  segments: [
+    { segmentId: 0, speakerId: 'S1', sentiment: { score: 0.4, label: 'positive' } },
+    { segmentId: 1, speakerId: 'S2', sentiment: { score: -0.4, label: 'negative' } },
+    { segmentId: 2, speakerId: 'S1', sentiment: { score: 0.2, label: 'neutral' } },
+    { segmentId: 3, speakerId: 'S2', sentiment: { score: 0, label: 'neutral' } },
+    { segmentId: 4, speakerId: 'S1', sentiment: { score: 0.5, label: 'positive' } },
+    { segmentId: 5, speakerId: 'S2', sentiment: { score: 0.8, label: 'positive' } },
+  ],
+};
+
+// The fixture call is entirely in English, so no segment needs a translation
+const FIXTURE_LANGUAGE_TAGS = {
+  segments: [0, 1, 2, 3, 4, 5].map(segmentId => ({
+    segmentId,
+    languages: [{ code: 'en', share: 1 }],
+  })),
+};
+
+// Segment 3 spells out the customer's email address, which only the model pass catches
+const FIXTURE_PII = {
+  entities: [{ segmentId: 3, type: 'email', text: 'ravi at example dot com' }],
+};
+
+// Offline backend: replays recorded model output instead of calling an API.
+// `ANALYSIS_FIXTURE_JSON` may hold a recorded call analysis to replay instead.
+export const createFixtureAnalysis = (fixtureJson?: string): AnalysisProvider => ({
+  name: 'fixture',
+  model: 'fixture',
+
+  complete(_messages, options) {
+    if (options?.purpose === 'speaker-labelling') {
+      console.log('Returning fixture speaker labels');
+      return Promise.resolve(JSON.stringify(FIXTURE_SPEAKER_LABELS));
+    }
+    if (options?.purpose === 'language-tagging') {
+      console.log('Returning fixture language tags');
+      return Promise.resolve(JSON.stringify(FIXTURE_LANGUAGE_TAGS));
+    }
+    if (options?.purpose === 'pii-detection') {
+      console.log('Returning fixture PII entities');
+      return Promise.resolve(JSON.stringify(FIXTURE_PII));
+    }
+
+    console.log('Returning fixture call analysis');
+    return Promise.resolve(fixtureJson || JSON.stringify(FIXTURE_ANALYSIS));
+  },
+});
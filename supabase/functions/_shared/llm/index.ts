@@ -0,0 +1,53 @@
+import { AnalysisProvider } from './types.ts';
+import { createOpenAICompatibleAnalysis } from './openaiCompatible.ts';
+import { createAzureOpenAIAnalysis } from './azure.ts';
+import { createFixtureAnalysis } from './fixture.ts';
+
+export type { AnalysisProvider, ChatMessage, CompletionOptions, CompletionPurpose } from './types.ts';
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new Error(`${name} not configured`);
+  }
+  return value;
+};
+
+// Picks the call-analysis backend for this deployment from `ANALYSIS_PROVIDER`:
+// `openai` (default), `openai-compatible`, `azure` or `fixture`.
+export const getAnalysisProvider = (): AnalysisProvider => {
+  const provider = Deno.env.get('ANALYSIS_PROVIDER') || 'openai';
+
+  switch (provider) {
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('OpenAI API key not configured');
+      }
+      return createOpenAICompatibleAnalysis({
+        name: 'openai',
+        baseUrl: 'https://api.openai.com/v1',
+        model: Deno.env.get('ANALYSIS_MODEL') || 'gpt-4o',
+        apiKey,
+      });
+    }
+    case 'openai-compatible':
+      return createOpenAICompatibleAnalysis({
+        name: 'openai-compatible',
+        baseUrl: requireEnv('ANALYSIS_BASE_URL'),
+        model: requireEnv('ANALYSIS_MODEL'),
+        apiKey: Deno.env.get('ANALYSIS_API_KEY'),
+      });
+    case 'azure':
+      return createAzureOpenAIAnalysis({
+        endpoint: requireEnv('AZURE_OPENAI_ENDPOINT'),
+        deployment: requireEnv('AZURE_OPENAI_DEPLOYMENT'),
+        apiVersion: Deno.env.get('AZURE_OPENAI_API_VERSION') || '2024-06-01',
+        apiKey: requireEnv('AZURE_OPENAI_API_KEY'),
+      });
+    case 'fixture':
+      return createFixtureAnalysis(Deno.env.get('ANALYSIS_FIXTURE_JSON'));
+    default:
+      throw new Error(`Unknown ANALYSIS_PROVIDER: ${provider}`);
+  }
+};
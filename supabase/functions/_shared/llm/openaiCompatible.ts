@@ -0,0 +1,25 @@
+import { AnalysisProvider } from './types.ts';
+import { requestChatCompletion } from './chatCompletions.ts';
+
+export interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+  model: string;
+  apiKey?: string;
+}
+
+// OpenAI itself, or any server exposing `/chat/completions` (llama.cpp, Ollama, vLLM)
+export const createOpenAICompatibleAnalysis = (config: OpenAICompatibleConfig): AnalysisProvider => ({
+  name: config.name,
+  model: config.model,
+
+  complete(messages, options) {
+    return requestChatCompletion(
+      `${config.baseUrl.replace(/\/$/, '')}/chat/completions`,
+      config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {},
+      { model: config.model },
+      messages,
+      options
+    );
+  },
+});
@@ -0,0 +1,21 @@
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+  jsonMode?: boolean; // ask for a JSON object response where the backend supports it
+  purpose?: CompletionPurpose; // lets the fixture backend answer each kind of request
+}
+
+export type CompletionPurpose = 'call-analysis' | 'speaker-labelling' | 'language-tagging' | 'pii-detection';
+
+// Chat-completion backend used for call analysis and the other model passes. Returns the raw message
+// content; parsing and validation stay with the caller.
+export interface AnalysisProvider {
+  name: string;
+  model: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+}
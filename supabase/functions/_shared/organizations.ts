@@ -0,0 +1,70 @@
+import { AdminClient } from './supabaseAdmin.ts';
+
+// The organization a user's uploads belong to. Everyone is given a personal
+// organization on sign-up; when a user belongs to several, the oldest
+// membership wins until the app lets them pick one.
+export const getUserOrganizationId = async (
+  supabase: AdminClient,
+  userId: string
+): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('organization_id')
+    .eq('user_id', userId)
+    .order('created_at')
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up organization: ${error.message}`);
+  }
+
+  return data?.organization_id ?? null;
+};
+
+// Mirrors `public.can_view_unredacted`: access comes from the organization a
+// call was uploaded under, so the uploader alone does not qualify.
+export const canViewUnredacted = async (
+  supabase: AdminClient,
+  userId: string | null,
+  organizationId: string | null
+): Promise<boolean> => {
+  if (!userId || !organizationId) return false;
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('can_view_unredacted')
+    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check unredacted access: ${error.message}`);
+  }
+
+  return data?.can_view_unredacted ?? false;
+};
+
+// Calls are visible to their uploader and to the members of the organization
+// they were uploaded under
+export const canAccessTranscription = async (
+  supabase: AdminClient,
+  userId: string,
+  transcription: { user_id: string; organization_id: string | null }
+): Promise<boolean> => {
+  if (transcription.user_id === userId) return true;
+  if (!transcription.organization_id) return false;
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .select('user_id')
+    .eq('user_id', userId)
+    .eq('organization_id', transcription.organization_id)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check organization membership: ${error.message}`);
+  }
+
+  return data !== null;
+};
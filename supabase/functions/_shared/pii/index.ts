@@ -0,0 +1,132 @@
+import { formatRedactionMarker } from '../../../../src/types/piiSchema.ts';
+import type { PiiEntity } from '../../../../src/types/piiSchema.ts';
+import { AnalysisProvider } from '../llm/index.ts';
+import { TranscriptWord } from '../stt/index.ts';
+import { TranscriptSegment } from '../types.ts';
+import { PiiSpan, detectPatternPii, mergeSpans } from './patterns.ts';
+import { detectModelPii } from './modelPass.ts';
+
+export type { PiiEntity } from '../../../../src/types/piiSchema.ts';
+
+// Widen each span in the recording a little: word timestamps from
+// speech-to-text tend to clip the first and last syllable
+const TIME_PADDING_SECONDS = 0.15;
+
+export interface TranscriptVariant {
+  transcript: string;
+  segments: TranscriptSegment[];
+  words: TranscriptWord[];
+}
+
+export interface RedactionResult {
+  redacted: TranscriptVariant;
+  unredacted: TranscriptVariant;
+  entities: PiiEntity[];
+}
+
+const applySpans = (text: string, spans: PiiSpan[]) =>
+  [...spans]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, span) => result.slice(0, span.start) + formatRedactionMarker(span.type) + result.slice(span.end), text);
+
+// Pattern-only redaction for free text such as the model's analysis, which is
+// written from redacted segments but may still echo a value back
+export const redactText = (text: string) => applySpans(text, detectPatternPii(text));
+
+export const redactStrings = <T>(value: T): T => {
+  if (typeof value === 'string') return redactText(value) as T;
+  if (Array.isArray(value)) return value.map(redactStrings) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, redactStrings(entry)])
+    ) as T;
+  }
+  return value;
+};
+
+// Maps a character span in a segment onto the recording. Words are matched
+// by their position in the segment text; without word timings the segment's
+// time is split in proportion to the text.
+const locateSpan = (
+  segment: TranscriptSegment,
+  segmentWords: TranscriptWord[],
+  span: PiiSpan
+): { startTime: number; endTime: number } => {
+  const length = Math.max(segment.text.length, 1);
+  const proportional = () => ({
+    startTime: segment.start + (segment.end - segment.start) * (span.start / length),
+    endTime: segment.start + (segment.end - segment.start) * (span.end / length),
+  });
+
+  if (segmentWords.length === 0) return proportional();
+
+  let offset = 0;
+  const ranges = segmentWords.map(word => {
+    const range = { word, start: offset, end: offset + word.word.trim().length };
+    offset = range.end + 1;
+    return range;
+  });
+  const scale = offset / length;
+  const covered = ranges.filter(range => range.start < span.end * scale && span.start * scale < range.end);
+
+  return covered.length > 0
+    ? { startTime: covered[0].word.start, endTime: covered[covered.length - 1].word.end }
+    : proportional();
+};
+
+const wordsInSegment = (words: TranscriptWord[], segment: TranscriptSegment) =>
+  words.filter(word => {
+    const midpoint = (word.start + word.end) / 2;
+    return midpoint >= segment.start && midpoint <= segment.end;
+  });
+
+// Finds personal data in every segment and produces the redacted variant the
+// rest of the pipeline works from. The unredacted variant is returned as-is so
+// the caller can store it where only privileged users can read it.
+export const redactTranscript = async (
+  { transcript, segments, words }: TranscriptVariant,
+  modelProvider: AnalysisProvider | null
+): Promise<RedactionResult> => {
+  const modelSpans = modelProvider ? await detectModelPii(segments, modelProvider) : new Map<number, PiiSpan[]>();
+  const entities: PiiEntity[] = [];
+
+  const redactedSegments = segments.map(segment => {
+    const patternSpans = detectPatternPii(segment.text);
+    const spans = mergeSpans([...patternSpans, ...(modelSpans.get(segment.id) || [])]);
+    if (spans.length === 0) return segment;
+
+    const segmentWords = wordsInSegment(words, segment);
+    for (const span of spans) {
+      const { startTime, endTime } = locateSpan(segment, segmentWords, span);
+      entities.push({
+        type: span.type,
+        segmentId: segment.id,
+        start: span.start,
+        end: span.end,
+        startTime: Math.max(0, startTime - TIME_PADDING_SECONDS),
+        endTime: endTime + TIME_PADDING_SECONDS,
+        source: patternSpans.includes(span) ? 'pattern' : 'model',
+      });
+    }
+    return { ...segment, text: applySpans(segment.text, spans) };
+  });
+
+  const redactedWords = words.map(word => {
+    const midpoint = (word.start + word.end) / 2;
+    const entity = entities.find(entity => midpoint >= entity.startTime && midpoint <= entity.endTime);
+    return entity ? { ...word, word: formatRedactionMarker(entity.type) } : word;
+  });
+
+  // Providers without segments only return running text, so that is scanned too
+  let redactedTranscript = redactText(transcript);
+  for (const entity of entities) {
+    const value = segments.find(segment => segment.id === entity.segmentId)!.text.slice(entity.start, entity.end);
+    redactedTranscript = redactedTranscript.split(value).join(formatRedactionMarker(entity.type));
+  }
+
+  return {
+    redacted: { transcript: redactedTranscript, segments: redactedSegments, words: redactedWords },
+    unredacted: { transcript, segments, words },
+    entities,
+  };
+};
@@ -0,0 +1,89 @@
+import { modelPiiDetectionSchema } from '../../../../src/types/piiSchema.ts';
+import { AnalysisProvider, ChatMessage } from '../llm/index.ts';
+import { TranscriptSegment } from '../types.ts';
+import { PiiSpan } from './patterns.ts';
+
+const PII_BATCH_SIZE = 40;
+
+const buildPiiPrompt = (segments: TranscriptSegment[]) => `
+Find personal data in the call transcript segments below. Speech-to-text often writes values out as words, e.g. "four five three two" for digits or "ravi at example dot com" for an email address; report those too.
+
+SEGMENTS (one per line as "[segmentId] text"):
+${segments.map(segment => `[${segment.id}] ${segment.text}`).join('\n')}
+
+Return a JSON object { "entities": [...] } where each entity has:
+- segmentId: number (as shown in brackets)
+- type: one of "card_number", "phone", "email", "aadhaar", "pan", "otp"
+- text: the exact characters from the segment that make up the value, copied verbatim
+
+Only report values that identify a person, account or payment. Order numbers, prices, dates and amounts are not personal data.
+Return { "entities": [] } when there is nothing to report. Return only the JSON object, no markdown or extra text.
+`;
+
+const stripCodeFences = (content: string) =>
+  content.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+
+// Every occurrence of the model's quoted text in the segment; quotes that do
+// not appear verbatim are dropped rather than guessed at
+const findOccurrences = (text: string, value: string) => {
+  const offsets: number[] = [];
+  const haystack = text.toLowerCase();
+  const needle = value.toLowerCase();
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+    offsets.push(index);
+  }
+  return offsets;
+};
+
+const detectBatch = async (
+  segments: TranscriptSegment[],
+  provider: AnalysisProvider
+): Promise<Map<number, PiiSpan[]>> => {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'You are a data protection reviewer who finds personal data in call transcripts. Always respond with valid JSON.' },
+    { role: 'user', content: buildPiiPrompt(segments) },
+  ];
+
+  const content = await provider.complete(messages, {
+    temperature: 0,
+    maxTokens: 2000,
+    jsonMode: true,
+    purpose: 'pii-detection',
+  });
+  const result = modelPiiDetectionSchema.safeParse(JSON.parse(stripCodeFences(content)));
+  if (!result.success) {
+    throw new Error(result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; '));
+  }
+
+  const textById = new Map(segments.map(segment => [segment.id, segment.text]));
+  const spans = new Map<number, PiiSpan[]>();
+  for (const entity of result.data.entities) {
+    const text = textById.get(entity.segmentId);
+    if (!text) continue;
+    for (const start of findOccurrences(text, entity.text)) {
+      spans.set(entity.segmentId, [
+        ...(spans.get(entity.segmentId) || []),
+        { type: entity.type, start, end: start + entity.text.length },
+      ]);
+    }
+  }
+  return spans;
+};
+
+// Optional second opinion after the patterns. A failed batch only loses the
+// model's findings for those segments; the pattern results still stand.
+export const detectModelPii = async (
+  segments: TranscriptSegment[],
+  provider: AnalysisProvider
+): Promise<Map<number, PiiSpan[]>> => {
+  const spans = new Map<number, PiiSpan[]>();
+  for (let start = 0; start < segments.length; start += PII_BATCH_SIZE) {
+    try {
+      const batch = await detectBatch(segments.slice(start, start + PII_BATCH_SIZE), provider);
+      batch.forEach((found, segmentId) => spans.set(segmentId, found));
+    } catch (error) {
+      console.warn('Model PII detection failed for a batch, keeping pattern matches only:', error);
+    }
+  }
+  return spans;
+};
@@ -0,0 +1,120 @@
+import type { PiiType } from '../../../../src/types/piiSchema.ts';
+import { isValidLuhn, isValidVerhoeff } from './checksums.ts';
+
+export interface PiiSpan {
+  type: PiiType;
+  start: number;
+  end: number;
+}
+
+interface PatternDetector {
+  type: PiiType;
+  pattern: RegExp;
+  // Capture group holding the value when the pattern also matches context
+  group?: number;
+  // `before` is the text just ahead of the value, for detectors that need context
+  isValid?: (value: string, before: string) => boolean;
+}
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+// How far back context words are looked for
+const CONTEXT_CHARS = 40;
+
+const PHONE_CONTEXT = /\b(?:phone|mobile|cell|contact|whats ?app|landline|call (?:me|us)(?: (?:on|at|back))?|reach (?:me|us)(?: on| at)?)\b(?: (?:no\.?|number))?\D{0,15}$/i;
+
+// Order and ticket numbers are extracted as entities by the analysis, so a
+// number the caller names as one ("my order number is ...") must stay
+// readable in the redacted transcript. Anything vaguer ("linked to my
+// account is ...") could be PII and is treated as PII.
+const REFERENCE_CONTEXT = /\b(?:order|invoice|ticket|booking|reference|ref|tracking|transaction|txn|consignment|awb) ?(?:no\.?|number|id|#)\W{0,3}(?:(?:is|was)\W{0,3})?$/i;
+
+// A phone or Aadhaar keyword anywhere in the same clause wins over the exemption
+const PII_KEYWORDS = /\b(?:phone|mobile|cell|contact|whats ?app|landline|call|reach|aadhaa?r|uid)\b/i;
+
+const isReferenceNumber = (before: string) => {
+  const clause = before.split(/[.;!?]/).pop() || '';
+  return REFERENCE_CONTEXT.test(clause) && !PII_KEYWORDS.test(clause);
+};
+
+// Long digit runs are usually order, invoice or account numbers. Only treat
+// one as a phone number when it looks like one: an explicit country prefix, a
+// trunk 0, a 91 prefix or leading mobile digit (6-9) on an Indian mobile
+// number, or a word like "phone" or "mobile" just before it.
+const isPhoneNumber = (value: string, before: string) => {
+  const digits = digitsOf(value);
+  if (digits.length < 10 || digits.length > 13) return false;
+
+  if (/^(?:\+|00)/.test(value)) return true;
+  if (isReferenceNumber(before)) return false;
+  if (digits.length === 11 && digits.startsWith('0')) return true;
+  if (digits.length === 12 && /^91[6-9]/.test(digits)) return true;
+  if (digits.length === 10 && /^[6-9]/.test(digits)) return true;
+
+  return PHONE_CONTEXT.test(before);
+};
+
+// Listed in priority order: when spans overlap, the earlier detector wins, so
+// a Luhn-valid card number is not also reported as a phone number.
+const DETECTORS: PatternDetector[] = [
+  {
+    type: 'email',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  {
+    type: 'card_number',
+    pattern: /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+    isValid: value => isValidLuhn(digitsOf(value)),
+  },
+  {
+    type: 'aadhaar',
+    pattern: /(?<!\d)[2-9]\d{3}[ -]?\d{4}[ -]?\d{4}(?!\d)/g,
+    isValid: (value, before) => isValidVerhoeff(digitsOf(value)) && !isReferenceNumber(before),
+  },
+  {
+    // Fourth character is the holder type (P = person, C = company, ...)
+    type: 'pan',
+    pattern: /(?<![A-Za-z0-9])[A-Za-z]{3}[PCHFATBLJGpchfatbljg][A-Za-z]\d{4}[A-Za-z](?![A-Za-z0-9])/g,
+  },
+  {
+    type: 'phone',
+    pattern: /(?<![\d+])(?:(?:\+|00)\d{1,3}[ -]?)?(?:\(?\d{2,5}\)?[ -]?)?\d{3,5}[ -]?\d{4,5}(?!\d)/g,
+    isValid: isPhoneNumber,
+  },
+  {
+    type: 'otp',
+    // A bare "code" is too common ("pin code", "area code") to mark a secret, and
+    // "pin" only counts when it is not the start of "pin code"
+    pattern: /\b(?:otp|one[- ]time (?:password|code)|verification code|security code|pin(?![ -]?code)(?: number)?)\b\D{0,20}?(\d(?:[ -]?\d){3,7})(?!\d)/gi,
+    group: 1,
+  },
+];
+
+const overlaps = (a: PiiSpan, b: PiiSpan) => a.start < b.end && b.start < a.end;
+
+// Keeps the first span claimed over any range of text, in the order given
+export const mergeSpans = (spans: PiiSpan[]): PiiSpan[] => {
+  const kept: PiiSpan[] = [];
+  for (const span of spans) {
+    if (!kept.some(existing => overlaps(existing, span))) kept.push(span);
+  }
+  return kept.sort((a, b) => a.start - b.start);
+};
+
+export const detectPatternPii = (text: string): PiiSpan[] => {
+  const spans: PiiSpan[] = [];
+
+  for (const { type, pattern, group, isValid } of DETECTORS) {
+    for (const match of text.matchAll(pattern)) {
+      const value = group ? match[group] : match[0];
+      if (!value) continue;
+
+      const start = match.index! + (group ? match[0].lastIndexOf(value) : 0);
+      if (isValid && !isValid(value, text.slice(Math.max(0, start - CONTEXT_CHARS), start))) continue;
+
+      spans.push({ type, start, end: start + value.length });
+    }
+  }
+
+  return mergeSpans(spans);
+};
@@ -0,0 +1,205 @@
+import { AdminClient } from './supabaseAdmin.ts';
+import { jsonResponse } from './cors.ts';
+import {
+  ScopedUsage,
+  UsageLimits,
+  UsageQuota,
+  UsageTotals,
+  describeQuota,
+  summarizeUsage,
+} from '../../../src/lib/usageQuota.ts';
+
+const DEFAULT_USER_LIMITS: UsageLimits = {
+  requestsPerMinute: 5,
+  audioMinutesPerDay: 120,
+  audioMinutesPerMonth: 1500,
+};
+
+const DEFAULT_ORGANIZATION_LIMITS: UsageLimits = {
+  requestsPerMinute: 20,
+  audioMinutesPerDay: 600,
+  audioMinutesPerMonth: 10000,
+};
+
+// Unset keeps the default; 0 switches that quota off
+const readLimit = (name: string, fallback: number | null) => {
+  const value = Deno.env.get(name);
+  if (value === undefined || value.trim() === '') return fallback;
+
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit < 0) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+  return limit === 0 ? null : limit;
+};
+
+const loadLimits = (prefix: 'QUOTA_USER' | 'QUOTA_ORG', defaults: UsageLimits): UsageLimits => ({
+  requestsPerMinute: readLimit(`${prefix}_REQUESTS_PER_MINUTE`, defaults.requestsPerMinute),
+  audioMinutesPerDay: readLimit(`${prefix}_AUDIO_MINUTES_PER_DAY`, defaults.audioMinutesPerDay),
+  audioMinutesPerMonth: readLimit(`${prefix}_AUDIO_MINUTES_PER_MONTH`, defaults.audioMinutesPerMonth),
+});
+
+// As returned by the `get_usage_totals` and `reserve_usage` functions
+interface UsageTotalsByScope {
+  user: UsageTotals;
+  organization: UsageTotals | null;
+}
+
+export type UsageReservation =
+  | { reserved: true; usageEventId: string }
+  | { reserved: false; quota: UsageQuota };
+
+const summarizeTotals = (totals: UsageTotalsByScope): UsageQuota => {
+  const usage: ScopedUsage[] = [{
+    scope: 'user',
+    limits: loadLimits('QUOTA_USER', DEFAULT_USER_LIMITS),
+    totals: totals.user,
+  }];
+  if (totals.organization) {
+    usage.push({
+      scope: 'organization',
+      limits: loadLimits('QUOTA_ORG', DEFAULT_ORGANIZATION_LIMITS),
+      totals: totals.organization,
+    });
+  }
+  return summarizeUsage(usage);
+};
+
+// Usage so far against the configured limits, summed by the database. Users
+// without an organization are only held to the per-user limits.
+export const getUsageQuota = async (
+  supabase: AdminClient,
+  userId: string,
+  organizationId: string | null
+): Promise<UsageQuota> => {
+  const { data, error } = await supabase.rpc('get_usage_totals', {
+    for_user_id: userId,
+    for_organization_id: organizationId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load usage: ${error.message}`);
+  }
+
+  return summarizeTotals(data as UsageTotalsByScope);
+};
+
+// Checks the limits and records the request in one database transaction, so
+// concurrent requests cannot all take the last free slot. The ledger row is
+// linked to its transcription with `attachUsage` once that exists.
+export const reserveUsage = async (
+  supabase: AdminClient,
+  userId: string,
+  organizationId: string | null
+): Promise<UsageReservation> => {
+  const { data, error } = await supabase.rpc('reserve_usage', {
+    for_user_id: userId,
+    for_organization_id: organizationId,
+    user_limits: loadLimits('QUOTA_USER', DEFAULT_USER_LIMITS),
+    organization_limits: loadLimits('QUOTA_ORG', DEFAULT_ORGANIZATION_LIMITS),
+  });
+
+  if (error) {
+    throw new Error(`Failed to reserve usage: ${error.message}`);
+  }
+
+  return data.reserved
+    ? { reserved: true, usageEventId: data.usageEventId }
+    : { reserved: false, quota: summarizeTotals(data.totals) };
+};
+
+// 429 naming the first quota that ran out. Retry-After is exposed so the
+// browser client can read it; the body carries the same value and the full quota.
+export const quotaExceededResponse = (quota: UsageQuota) => {
+  const exhausted = quota.quotas.find(status => status.remaining <= 0);
+  const retryAfter = String(quota.retryAfterSeconds ?? 60);
+
+  return jsonResponse(
+    {
+      error: exhausted ? `Usage limit reached: ${describeQuota(exhausted)}` : 'Usage limit reached',
+      retryAfterSeconds: quota.retryAfterSeconds,
+      quota,
+    },
+    429,
+    { 'Retry-After': retryAfter, 'Access-Control-Expose-Headers': 'Retry-After' }
+  );
+};
+
+// Uploads reserve their request before the recording is stored, so the
+// reservation carries the path the file is uploaded to
+export const setUsageAudioPath = async (
+  supabase: AdminClient,
+  usageEventId: string,
+  audioFilePath: string
+) => {
+  const { error } = await supabase
+    .from('usage_events')
+    .update({ audio_file_path: audioFilePath })
+    .eq('id', usageEventId);
+  if (error) {
+    throw new Error(`Failed to record usage: ${error.message}`);
+  }
+};
+
+// The reservation made for an uploaded file that no transcription has used yet
+export const findUploadReservation = async (
+  supabase: AdminClient,
+  userId: string,
+  audioFilePath: string
+): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('usage_events')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('audio_file_path', audioFilePath)
+    .is('transcription_id', null)
+    .limit(1)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load usage: ${error.message}`);
+  }
+  return data?.id ?? null;
+};
+
+// Links a reservation to its transcription. False when another request
+// claimed it first.
+export const attachUsage = async (
+  supabase: AdminClient,
+  usageEventId: string,
+  transcriptionId: string
+): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('usage_events')
+    .update({ transcription_id: transcriptionId })
+    .eq('id', usageEventId)
+    .is('transcription_id', null)
+    .select('id');
+  if (error) {
+    throw new Error(`Failed to record usage: ${error.message}`);
+  }
+  return data.length > 0;
+};
+
+// Hands a reservation back when the request it was made for never started
+export const releaseUsage = async (supabase: AdminClient, usageEventId: string) => {
+  const { error } = await supabase.from('usage_events').delete().eq('id', usageEventId);
+  if (error) {
+    console.error(`Failed to release usage reservation ${usageEventId}:`, error);
+  }
+};
+
+// Audio length is only known after speech-to-text, so the request's usage row
+// is completed by the worker
+export const recordAudioUsage = async (
+  supabase: AdminClient,
+  transcriptionId: string,
+  audioSeconds: number
+) => {
+  const { error } = await supabase
+    .from('usage_events')
+    .update({ audio_seconds: audioSeconds })
+    .eq('transcription_id', transcriptionId);
+  if (error) {
+    throw new Error(`Failed to record audio usage for ${transcriptionId}: ${error.message}`);
+  }
+};
@@ -0,0 +1,66 @@
+import { AdminClient } from './supabaseAdmin.ts';
+import { rubricCategoriesSchema } from '../../../src/types/rubricSchema.ts';
+import type { CallType, RubricCategory } from '../../../src/types/rubricSchema.ts';
+
+export interface ResolvedRubric {
+  id: string;
+  name: string;
+  version: number;
+  categories: RubricCategory[];
+}
+
+interface RubricLookup {
+  userId: string | null;
+  rubricId: string | null;
+  callType: CallType | null;
+}
+
+const RUBRIC_COLUMNS = 'id, name, version, categories';
+
+// Picks the rubric for a call: the one chosen at upload, else the rubric for
+// the declared call type, else the default. The caller's own rubrics win over
+// built-in ones at each step.
+export const resolveRubric = async (
+  supabase: AdminClient,
+  { userId, rubricId, callType }: RubricLookup
+): Promise<ResolvedRubric> => {
+  const visibleRubrics = () => {
+    const query = supabase.from('rubrics').select(RUBRIC_COLUMNS);
+    return userId
+      ? query.or(`user_id.is.null,user_id.eq.${userId}`).order('user_id', { nullsFirst: false })
+      : query.is('user_id', null);
+  };
+
+  let rubric: { id: string; name: string; version: number; categories: unknown } | null = null;
+  if (rubricId) {
+    ({ data: rubric } = await visibleRubrics().eq('id', rubricId).limit(1).maybeSingle());
+  }
+  if (!rubric && callType) {
+    ({ data: rubric } = await visibleRubrics().eq('call_type', callType).limit(1).maybeSingle());
+  }
+  if (!rubric) {
+    ({ data: rubric } = await visibleRubrics().eq('is_default', true).limit(1).maybeSingle());
+  }
+
+  if (!rubric) {
+    throw new Error('No scoring rubric configured');
+  }
+
+  const categories = rubricCategoriesSchema.safeParse(rubric.categories);
+  if (!categories.success) {
+    throw new Error(`Rubric "${rubric.name}" is invalid: ${categories.error.issues[0]?.message}`);
+  }
+
+  return { id: rubric.id, name: rubric.name, version: rubric.version, categories: categories.data };
+};
+
+export const formatRubricForPrompt = (rubric: ResolvedRubric) =>
+  rubric.categories
+    .map(category => [
+      `   ${category.name.toUpperCase()} (${category.weight.toFixed(1)} points):`,
+      ...category.criteria.map(criterion =>
+        `   - ${criterion.name} (${criterion.points} points)${criterion.description ? `: ${criterion.description}` : ''}`
+      ),
+      ...(category.guidance ? [`   - ${category.guidance}`] : []),
+    ].join('\n'))
+    .join('\n\n');
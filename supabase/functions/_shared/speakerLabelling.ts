@@ -0,0 +1,179 @@
+import { speakerLabellingSchema } from '../../../src/types/callAnalysisSchema.ts';
+import { AnalysisProvider, ChatMessage } from './llm/index.ts';
+import { SegmentSpeaker, Speaker, SpeakerSegment, TranscriptSegment } from './types.ts';
+
+// Segments per labelling request. Every segment costs a speaker id and a
+// sentiment in the reply, so long calls are split rather than answered at once.
+const SPEAKER_BATCH_SIZE = 40;
+// Extra requests per batch when the labels do not cover every segment exactly once
+const MAX_LABELLING_RETRIES = 1;
+// Already-labelled segments shown ahead of each batch, so turns carry across the split
+const CONTEXT_SEGMENTS = 3;
+
+const formatSpeakers = (speakers: Speaker[]) =>
+  speakers.map(speaker => `- ${speaker.id}: ${speaker.label} (${speaker.role}) — ${speaker.roleEvidence}`).join('\n');
+
+const formatSegments = (segments: TranscriptSegment[]) =>
+  segments
+    .map(segment => `[${segment.id}] (${segment.start.toFixed(1)}s-${segment.end.toFixed(1)}s) ${segment.text}`)
+    .join('\n');
+
+const buildLabellingPrompt = (
+  segments: TranscriptSegment[],
+  speakers: Speaker[],
+  context: { segment: TranscriptSegment; speakerId: string }[]
+) => `
+Attribute each call transcript segment below to one of the call's speakers and rate its sentiment.
+
+SPEAKERS (as "id: label (role) — evidence"):
+${formatSpeakers(speakers)}
+${context.length > 0 ? `
+EARLIER IN THE CALL (already attributed, for continuity only; do not return these):
+${context.map(({ segment, speakerId }) => `[${segment.id}] ${speakerId}: ${segment.text}`).join('\n')}
+` : ''}
+SEGMENTS (one per line as "[segmentId] (start-end) text"):
+${formatSegments(segments)}
+
+Return a JSON object { "segments": [...] } with exactly one entry per segment:
+- segmentId: number (as shown in brackets)
+- speakerId: string (one of the speaker ids above)
+- sentiment: { score: number, label: "positive" | "neutral" | "negative" }
+
+Decide the speaker from what is said and how the conversation flows. Do not split, merge or rewrite segments.
+For sentiment, rate how the speaker comes across in that segment alone, from -1.0 (angry, frustrated, distressed) through 0.0 (neutral, factual) to 1.0 (pleased, grateful). Use label "negative" below -0.2, "positive" above 0.2 and "neutral" otherwise. Judge tone and wording, not the topic: a customer calmly reporting a problem is neutral.
+Markers such as [REDACTED:phone] stand for personal data removed before analysis.
+Return only the JSON object, no markdown or extra text.
+`;
+
+const stripCodeFences = (content: string) =>
+  content.trim().replace(/^```(?:json)?\s*/, '').replace(/\s*```$/, '');
+
+// Every segment of the batch must be labelled exactly once, with a declared
+// speaker. Anything else would silently hand the segment to the previous speaker.
+const checkCoverage = (labels: SegmentSpeaker[], segments: TranscriptSegment[], speakers: Speaker[]): string[] => {
+  const expected = new Set(segments.map(segment => segment.id));
+  const speakerIds = new Set(speakers.map(speaker => speaker.id));
+  const seen = new Set<number>();
+  const issues: string[] = [];
+
+  for (const label of labels) {
+    if (!expected.has(label.segmentId)) {
+      issues.push(`segmentId ${label.segmentId} is not one of the segments in this request`);
+    } else if (seen.has(label.segmentId)) {
+      issues.push(`segmentId ${label.segmentId} is labelled more than once`);
+    }
+    if (!speakerIds.has(label.speakerId)) {
+      issues.push(`segment ${label.segmentId} refers to unknown speaker "${label.speakerId}"`);
+    }
+    seen.add(label.segmentId);
+  }
+  const missing = [...expected].filter(id => !seen.has(id));
+  if (missing.length > 0) {
+    issues.push(`segments ${missing.join(', ')} are missing`);
+  }
+
+  return issues;
+};
+
+const parseLabels = (content: string): { labels: SegmentSpeaker[]; issues: string[] } => {
+  try {
+    const result = speakerLabellingSchema.safeParse(JSON.parse(stripCodeFences(content)));
+    if (!result.success) {
+      return { labels: [], issues: result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`) };
+    }
+    return { labels: result.data.segments, issues: [] };
+  } catch (error) {
+    return { labels: [], issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+};
+
+const labelBatch = async (
+  segments: TranscriptSegment[],
+  speakers: Speaker[],
+  context: { segment: TranscriptSegment; speakerId: string }[],
+  provider: AnalysisProvider
+): Promise<SegmentSpeaker[]> => {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: 'You are a call analysis expert who attributes call transcript segments to speakers and rates their sentiment. Always respond with valid JSON.' },
+    { role: 'user', content: buildLabellingPrompt(segments, speakers, context) },
+  ];
+  let labels: SegmentSpeaker[] = [];
+
+  try {
+    for (let attempt = 1; attempt <= 1 + MAX_LABELLING_RETRIES; attempt++) {
+      const content = await provider.complete(messages, {
+        temperature: 0.2,
+        maxTokens: 4000,
+        jsonMode: true,
+        purpose: 'speaker-labelling',
+      });
+
+      const parsed = parseLabels(content);
+      const issues = parsed.issues.length > 0 ? parsed.issues : checkCoverage(parsed.labels, segments, speakers);
+      if (parsed.labels.length > 0 || labels.length === 0) labels = parsed.labels;
+      if (issues.length === 0) return labels;
+
+      console.warn(`Speaker labelling attempt ${attempt} was incomplete:`, issues);
+      messages.push(
+        { role: 'assistant', content },
+        { role: 'user', content: `Your response had these problems:\n${issues.map(issue => `- ${issue}`).join('\n')}\nReturn the complete JSON object again with exactly one entry for each segmentId listed.` }
+      );
+    }
+  } catch (error) {
+    console.warn('Speaker labelling request failed:', error);
+  }
+
+  // Keep whatever the model labelled correctly; the rest is filled in by applySpeakerLabels
+  const segmentIds = new Set(segments.map(segment => segment.id));
+  const speakerIds = new Set(speakers.map(speaker => speaker.id));
+  const valid = labels.filter(label => segmentIds.has(label.segmentId) && speakerIds.has(label.speakerId));
+  console.warn(`Speaker labelling left ${segments.length - new Set(valid.map(label => label.segmentId)).size} of ${segments.length} segment(s) unlabelled`);
+  return valid;
+};
+
+// Segment timing comes from speech-to-text; the model only labels speakers
+// and sentiment. Segments it skips inherit the previous speaker, unscored.
+const applySpeakerLabels = (
+  segments: TranscriptSegment[],
+  speakers: Speaker[],
+  labels: Map<number, SegmentSpeaker>
+): SpeakerSegment[] => {
+  let previousSpeakerId = speakers[0].id;
+
+  return segments.map(segment => {
+    const label = labels.get(segment.id);
+    const speakerId = label?.speakerId || previousSpeakerId;
+    previousSpeakerId = speakerId;
+    return {
+      id: segment.id,
+      speakerId,
+      text: segment.text,
+      start: segment.start,
+      end: segment.end,
+      sentiment: label?.sentiment,
+    };
+  });
+};
+
+// Attributes every segment to one of the speakers found by the call analysis
+export const labelSegmentSpeakers = async (
+  segments: TranscriptSegment[],
+  speakers: Speaker[],
+  provider: AnalysisProvider
+): Promise<SpeakerSegment[]> => {
+  const labels = new Map<number, SegmentSpeaker>();
+  for (let start = 0; start < segments.length; start += SPEAKER_BATCH_SIZE) {
+    const context = segments
+      .slice(Math.max(0, start - CONTEXT_SEGMENTS), start)
+      .flatMap(segment => {
+        const label = labels.get(segment.id);
+        return label ? [{ segment, speakerId: label.speakerId }] : [];
+      });
+    const batch = await labelBatch(segments.slice(start, start + SPEAKER_BATCH_SIZE), speakers, context, provider);
+    for (const label of batch) {
+      if (!labels.has(label.segmentId)) labels.set(label.segmentId, label);
+    }
+  }
+
+  return applySpeakerLabels(segments, speakers, labels);
+};
@@ -0,0 +1,38 @@
+import { AdminClient } from './supabaseAdmin.ts';
+
+export const AUDIO_BUCKET = 'audio-files';
+
+// Objects live under `<uid>/...`, mirroring the bucket's RLS policies.
+export const isOwnAudioPath = (path: string, userId: string) =>
+  path.split('/')[0] === userId && !path.split('/').includes('..');
+
+// Reads the whole recording into memory. Uploads are capped at 50MB, and every
+// consumer needs all of it anyway: speech-to-text takes the file (or chunks
+// sliced from this Blob without copying) as one upload, MP3 chunking has to
+// walk every frame header, and redaction rewrites samples anywhere in the file.
+// Those two passes each hold one more copy, never both at once.
+export const downloadAudio = async (supabase: AdminClient, path: string): Promise<Blob> => {
+  const { data, error } = await supabase.storage.from(AUDIO_BUCKET).download(path);
+  if (error || !data) {
+    throw new Error(`Failed to read audio from storage: ${error?.message || 'not found'}`);
+  }
+  return data;
+};
+
+export const createAudioUrl = async (supabase: AdminClient, path: string, expiresIn = 3600) => {
+  const { data, error } = await supabase.storage.from(AUDIO_BUCKET).createSignedUrl(path, expiresIn);
+  if (error) {
+    console.error(`Failed to sign audio url for ${path}:`, error);
+    return null;
+  }
+  return data.signedUrl;
+};
+
+export const uploadAudio = async (supabase: AdminClient, path: string, bytes: Uint8Array, contentType: string) => {
+  const { error } = await supabase.storage
+    .from(AUDIO_BUCKET)
+    .upload(path, bytes, { contentType, upsert: true });
+  if (error) {
+    throw new Error(`Failed to store audio at ${path}: ${error.message}`);
+  }
+};
@@ -0,0 +1,51 @@
+import { SpeechToTextProvider } from './types.ts';
+import { fromVerboseJson, VerboseJsonResponse } from './verboseJson.ts';
+
+const FIXTURE_SEGMENTS: [number, number, string][] = [
+  [0.0, 4.2, 'Thank you for calling Vocalytics support, this is Priya. How can I help you today?'],
+  [4.6, 9.8, 'Hi Priya, my invoice for this month shows a charge I did not expect.'],
+  [10.3, 15.1, 'I am sorry about that. Could you confirm the email address on the account?'],
+  [15.6, 18.4, 'Sure, it is ravi at example dot com.'],
+  [19.0, 26.5, 'Thanks Ravi. I can see a duplicate charge from the plan upgrade, I will refund it today.'],
+  [27.0, 30.2, 'Great, thank you so much for sorting that out.'],
+];
+
+// Spreads each segment's words evenly across its span
+const buildFixture = (): VerboseJsonResponse => {
+  const segments = FIXTURE_SEGMENTS.map(([start, end, text], id) => {
+    const tokens = text.split(' ');
+    const step = (end - start) / tokens.length;
+    return {
+      id,
+      start,
+      end,
+      text,
+      words: tokens.map((word, i) => ({
+        word,
+        start: Number((start + i * step).toFixed(2)),
+        end: Number((start + (i + 1) * step).toFixed(2)),
+      })),
+    };
+  });
+
+  return {
+    text: FIXTURE_SEGMENTS.map(([, , text]) => text).join(' '),
+    language: 'english',
+    duration: 30.2,
+    segments,
+  };
+};
+
+// Deterministic backend for tests and offline development: ignores the audio
+// and returns the same transcript every time. `STT_FIXTURE_JSON` may supply a
+// recorded verbose_json payload instead of the built-in call.
+export const createFixtureSpeechToText = (fixtureJson?: string): SpeechToTextProvider => ({
+  name: 'fixture',
+  maxUploadBytes: null,
+
+  transcribe(_audio, options) {
+    console.log(`Returning fixture transcript for ${options.fileName}`);
+    const fixture: VerboseJsonResponse = fixtureJson ? JSON.parse(fixtureJson) : buildFixture();
+    return Promise.resolve(fromVerboseJson(fixture));
+  },
+});
@@ -0,0 +1,38 @@
+import { SpeechToTextProvider } from './types.ts';
+import { createOpenAISpeechToText } from './openai.ts';
+import { createWhisperServerSpeechToText } from './whisperServer.ts';
+import { createFixtureSpeechToText } from './fixture.ts';
+
+export type { SpeechToTextProvider, SpeechToTextResult, TranscriptWord } from './types.ts';
+
+// Picks the speech-to-text backend for this deployment from `STT_PROVIDER`:
+// `openai` (default), `whisper-server` or `fixture`.
+export const getSpeechToTextProvider = (): SpeechToTextProvider => {
+  const provider = Deno.env.get('STT_PROVIDER') || 'openai';
+
+  switch (provider) {
+    case 'openai': {
+      const apiKey = Deno.env.get('OPENAI_API_KEY');
+      if (!apiKey) {
+        throw new Error('OpenAI API key not configured');
+      }
+      return createOpenAISpeechToText(apiKey);
+    }
+    case 'whisper-server': {
+      const baseUrl = Deno.env.get('WHISPER_SERVER_URL');
+      if (!baseUrl) {
+        throw new Error('WHISPER_SERVER_URL not configured');
+      }
+      return createWhisperServerSpeechToText({
+        baseUrl,
+        path: Deno.env.get('WHISPER_SERVER_PATH') || '/inference',
+        model: Deno.env.get('WHISPER_SERVER_MODEL'),
+        apiKey: Deno.env.get('WHISPER_SERVER_API_KEY'),
+      });
+    }
+    case 'fixture':
+      return createFixtureSpeechToText(Deno.env.get('STT_FIXTURE_JSON'));
+    default:
+      throw new Error(`Unknown STT_PROVIDER: ${provider}`);
+  }
+};
@@ -0,0 +1,39 @@
+import { SpeechToTextProvider } from './types.ts';
+import { fromVerboseJson } from './verboseJson.ts';
+
+export const createOpenAISpeechToText = (apiKey: string): SpeechToTextProvider => ({
+  name: 'openai',
+  // Whisper rejects uploads over 25MB; stay safely below it
+  maxUploadBytes: 24 * 1024 * 1024,
+
+  async transcribe(audio, options) {
+    // Prepare form data for OpenAI Whisper API
+    const formData = new FormData();
+    formData.append('file', audio, options.fileName);
+    formData.append('model', 'whisper-1');
+    formData.append('response_format', 'verbose_json');
+    formData.append('timestamp_granularities[]', 'segment');
+    formData.append('timestamp_granularities[]', 'word');
+    formData.append('temperature', '0'); // Make transcription more literal
+    if (options.language) formData.append('language', options.language);
+    if (options.prompt) formData.append('prompt', options.prompt);
+
+    console.log('Sending audio to OpenAI Whisper API...');
+
+    const whisperResponse = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+      },
+      body: formData,
+    });
+
+    if (!whisperResponse.ok) {
+      const errorText = await whisperResponse.text();
+      console.error('OpenAI Whisper API error:', errorText);
+      throw new Error(`Whisper API error: ${whisperResponse.status} - ${errorText}`);
+    }
+
+    return fromVerboseJson(await whisperResponse.json());
+  },
+});
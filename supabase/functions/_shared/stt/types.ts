@@ -0,0 +1,29 @@
+import { TranscriptSegment } from '../types.ts';
+
+export interface TranscriptWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscribeOptions {
+  fileName: string;
+  prompt?: string;
+  language?: string; // ISO-639-1; omitted means auto-detect
+}
+
+// Every backend returns exactly this shape, with offsets in seconds
+export interface SpeechToTextResult {
+  text: string;
+  language: string | null;
+  duration: number;
+  segments: TranscriptSegment[];
+  words: TranscriptWord[];
+}
+
+export interface SpeechToTextProvider {
+  name: string;
+  // Largest upload the backend accepts; longer audio is chunked. null = no limit.
+  maxUploadBytes: number | null;
+  transcribe(audio: Blob, options: TranscribeOptions): Promise<SpeechToTextResult>;
+}
@@ -0,0 +1,51 @@
+import { SpeechToTextResult, TranscriptWord } from './types.ts';
+
+interface VerboseJsonWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+interface VerboseJsonSegment {
+  id?: number;
+  start: number;
+  end: number;
+  text: string;
+  words?: VerboseJsonWord[];
+}
+
+export interface VerboseJsonResponse {
+  text: string;
+  language?: string;
+  duration?: number;
+  segments?: VerboseJsonSegment[];
+  words?: VerboseJsonWord[];
+}
+
+const toWord = (word: VerboseJsonWord): TranscriptWord => ({
+  word: word.word.trim(),
+  start: word.start,
+  end: word.end,
+});
+
+// OpenAI, faster-whisper and whisper.cpp all speak a variant of Whisper's
+// `verbose_json`; words come either top-level or nested in each segment.
+export const fromVerboseJson = (result: VerboseJsonResponse): SpeechToTextResult => {
+  const segments = result.segments || [];
+  const words = result.words?.length
+    ? result.words
+    : segments.flatMap(segment => segment.words || []);
+
+  return {
+    text: result.text.trim(),
+    language: result.language || null,
+    duration: result.duration || segments[segments.length - 1]?.end || 0,
+    segments: segments.map((segment, index) => ({
+      id: segment.id ?? index,
+      start: segment.start,
+      end: segment.end,
+      text: segment.text.trim(),
+    })),
+    words: words.map(toWord),
+  };
+};
@@ -0,0 +1,45 @@
+import { SpeechToTextProvider } from './types.ts';
+import { fromVerboseJson } from './verboseJson.ts';
+
+export interface WhisperServerConfig {
+  baseUrl: string;
+  // `/inference` for whisper.cpp's server, `/v1/audio/transcriptions` for
+  // faster-whisper servers exposing the OpenAI-compatible API
+  path: string;
+  model?: string;
+  apiKey?: string;
+}
+
+export const createWhisperServerSpeechToText = (config: WhisperServerConfig): SpeechToTextProvider => ({
+  name: 'whisper-server',
+  maxUploadBytes: null,
+
+  async transcribe(audio, options) {
+    const formData = new FormData();
+    formData.append('file', audio, options.fileName);
+    formData.append('response_format', 'verbose_json');
+    formData.append('temperature', '0');
+    formData.append('timestamp_granularities[]', 'segment');
+    formData.append('timestamp_granularities[]', 'word');
+    if (config.model) formData.append('model', config.model);
+    formData.append('language', options.language || 'auto');
+    if (options.prompt) formData.append('prompt', options.prompt);
+
+    const url = `${config.baseUrl.replace(/\/$/, '')}${config.path}`;
+    console.log(`Sending audio to whisper server at ${url}...`);
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {},
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Whisper server error:', errorText);
+      throw new Error(`Whisper server error: ${response.status} - ${errorText}`);
+    }
+
+    return fromVerboseJson(await response.json());
+  },
+});
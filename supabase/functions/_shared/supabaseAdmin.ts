@@ -0,0 +1,17 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+
+// Service-role client for edge functions. Bypasses RLS, so never hand it
+// anything that came from the request without validating it first.
+export const createAdminClient = () => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('Supabase service role not configured');
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+};
+
+export type AdminClient = ReturnType<typeof createAdminClient>;
@@ -0,0 +1,18 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.52.1";
+import { getBearerToken } from './auth.ts';
+
+// Client acting as the caller: queries run with their JWT, so row level
+// security applies exactly as it does in the browser. Use it for writes that
+// belong to the user; the service-role client is for the worker.
+export const createUserClient = (req: Request) => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+  if (!supabaseUrl || !anonKey) {
+    throw new Error('Supabase anon key not configured');
+  }
+
+  return createClient(supabaseUrl, anonKey, {
+    auth: { persistSession: false },
+    global: { headers: { Authorization: `Bearer ${getBearerToken(req)}` } },
+  });
+};
@@ -0,0 +1,388 @@
+import { AdminClient } from './supabaseAdmin.ts';
+import { transcribeRecording } from './chunkedTranscription.ts';
+import { getSpeechToTextProvider } from './stt/index.ts';
+import { getAnalysisProvider } from './llm/index.ts';
+import { resolveRubric } from './rubrics.ts';
+import { analyzeCall } from './callAnalysis.ts';
+import { tagSegmentLanguages } from './languageTagging.ts';
+import { formatGlossaryVocabulary, loadGlossary, normalizeTranscript } from './glossary.ts';
+import { evaluateCompliance, loadComplianceRules } from './compliance.ts';
+import { recordAudioUsage } from './quotas.ts';
+import { DEFAULT_AUDIO_REDACTION_MODE, createRedactedAudio } from './audioRedaction.ts';
+import { PiiEntity, TranscriptVariant, redactStrings, redactTranscript } from './pii/index.ts';
+import { computeConversationMetrics } from '../../../src/lib/conversationMetrics.ts';
+import { createAudioUrl, downloadAudio, isOwnAudioPath } from './storage.ts';
+import {
+  AgentSide,
+  AudioRedactionMode,
+  AnalysisFailure,
+  CallAnalysis,
+  CallType,
+  ComplianceResult,
+  ConversationMetrics,
+  LanguageMix,
+  SegmentLanguage,
+  TranscriptionJobResponse,
+  UnredactedTranscript,
+  TranscriptionStatus,
+  TranscriptSegment,
+} from './types.ts';
+
+interface TranscriptionRow {
+  id: string;
+  user_id: string;
+  status: TranscriptionStatus;
+  organization_id: string | null;
+  file_name: string;
+  file_size: number | null;
+  audio_file_path: string | null;
+  redacted_audio_path: string | null;
+  redacted_audio_mode: AudioRedactionMode | null;
+  transcript: string | null;
+  duration: number | null;
+  analysis: CallAnalysis | null;
+  analysis_failure: AnalysisFailure | null;
+  rubric_id: string | null;
+  rubric_version: number | null;
+  rubrics: { name: string } | null;
+  call_type_override: CallType | null;
+  agent_side: AgentSide | null;
+  segment_languages: SegmentLanguage[] | null;
+  language_mix: LanguageMix | null;
+  glossary_version: number | null;
+  pii_entities: PiiEntity[] | null;
+  conversation_metrics: ConversationMetrics | null;
+  compliance: ComplianceResult | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export const TRANSCRIPTION_JOB_COLUMNS =
+  'id, user_id, status, organization_id, file_name, file_size, audio_file_path, redacted_audio_path, redacted_audio_mode, transcript, duration, analysis, analysis_failure, rubric_id, rubric_version, rubrics(name), call_type_override, agent_side, segment_languages, language_mix, glossary_version, pii_entities, conversation_metrics, compliance, error, created_at, updated_at';
+
+// Providers that return no segments still get one spanning the whole call
+const toAnalysisSegments = (
+  segments: TranscriptSegment[],
+  transcript: string,
+  duration: number
+): TranscriptSegment[] =>
+  segments.length > 0 ? segments : [{ id: 0, start: 0, end: duration, text: transcript }];
+
+const updateJob = async (
+  supabase: AdminClient,
+  jobId: string,
+  updates: Record<string, unknown>
+) => {
+  const { error } = await supabase.from('transcriptions').update(updates).eq('id', jobId);
+  if (error) {
+    throw new Error(`Failed to update transcription ${jobId}: ${error.message}`);
+  }
+};
+
+const storeUnredactedTranscript = async (
+  supabase: AdminClient,
+  jobId: string,
+  unredacted: TranscriptVariant
+) => {
+  const { error } = await supabase
+    .from('transcription_unredacted')
+    .upsert({ transcription_id: jobId, ...unredacted });
+  if (error) {
+    throw new Error(`Failed to store unredacted transcript for ${jobId}: ${error.message}`);
+  }
+};
+
+// Second, pattern-only pass over the model's output. Entity mentions were
+// checked against the redacted segments, so one still found there already got
+// the context-aware verdict; run on its own, an order number shaped like a
+// phone number would turn into a marker the transcript does not show.
+const redactAnalysis = (analysis: CallAnalysis): CallAnalysis => {
+  const textById = new Map(analysis.transcript.map(segment => [segment.id, segment.text]));
+  return {
+    ...redactStrings(analysis),
+    entities: analysis.entities?.map(entity =>
+      textById.get(entity.segmentId)?.includes(entity.text) ? entity : redactStrings(entity)
+    ),
+  };
+};
+
+// Copies the analysis' action items into `action_items`, where the task list
+// can mark them done. Segment starts are stored so an item links to its moment.
+const storeActionItems = async (
+  supabase: AdminClient,
+  jobId: string,
+  userId: string,
+  analysis: CallAnalysis
+) => {
+  const items = analysis.actionItems || [];
+  if (items.length === 0) return;
+
+  const startBySegment = new Map(analysis.transcript.map(segment => [segment.id, segment.start]));
+  const { error } = await supabase.from('action_items').insert(items.map(item => ({
+    transcription_id: jobId,
+    user_id: userId,
+    owner: item.owner,
+    description: item.description,
+    due_text: item.dueText,
+    due_date: item.dueDate,
+    segment_id: item.segmentId,
+    segment_start: startBySegment.get(item.segmentId) ?? 0,
+  })));
+  if (error) {
+    throw new Error(`Failed to store action items for ${jobId}: ${error.message}`);
+  }
+};
+
+// Worker: advances a queued job through transcribing -> analyzing -> completed.
+// Any failure along the way is recorded on the row as `failed` with the error
+// message, so the status endpoint can report it to the dashboard.
+export const runTranscriptionJob = async (supabase: AdminClient, jobId: string) => {
+  try {
+    const { data: job, error } = await supabase
+      .from('transcriptions')
+      .select('user_id, organization_id, file_name, audio_file_path, rubric_id, requested_call_type, agent_side, created_at')
+      .eq('id', jobId)
+      .single();
+
+    if (error || !job?.audio_file_path) {
+      throw new Error(`Transcription ${jobId} has no audio file: ${error?.message || 'missing path'}`);
+    }
+
+    await updateJob(supabase, jobId, { status: 'transcribing' });
+    console.log(`[${jobId}] Transcribing ${job.audio_file_path}...`);
+
+    const speechToText = getSpeechToTextProvider();
+    const glossary = await loadGlossary(supabase, job.organization_id);
+    const audio = await downloadAudio(supabase, job.audio_file_path);
+    const recognised = await transcribeRecording(
+      speechToText,
+      audio,
+      job.file_name,
+      glossary ? formatGlossaryVocabulary(glossary.terms) : []
+    );
+    const { duration, words, language } = recognised;
+
+    // Counted as soon as the audio has been through speech-to-text, whatever
+    // happens to the analysis. A missed count only under-bills, so it does not
+    // fail the job.
+    await recordAudioUsage(supabase, jobId, duration)
+      .catch((usageError) => console.error(`[${jobId}] Could not record audio usage:`, usageError));
+
+    let { text: transcript, segments } = recognised;
+    if (glossary) {
+      const normalized = normalizeTranscript(transcript, segments, glossary);
+      ({ transcript, segments } = normalized);
+      console.log(`[${jobId}] Glossary v${glossary.version} corrected ${normalized.changedSegments} segment(s)`);
+    }
+
+    // Everything stored on the row from here on, and everything sent to the
+    // analysis model, is the redacted text
+    const analysisProvider = getAnalysisProvider();
+    const modelPiiDetection = Deno.env.get('PII_MODEL_DETECTION') === 'true';
+    const redaction = await redactTranscript(
+      { transcript, segments, words },
+      modelPiiDetection ? analysisProvider : null
+    );
+    await storeUnredactedTranscript(supabase, jobId, redaction.unredacted);
+    ({ transcript, segments } = redaction.redacted);
+    console.log(`[${jobId}] Redacted ${redaction.entities.length} PII value(s)`);
+
+    // Members without unredacted access can only play the recording once this
+    // copy exists. It is not worth failing the analysis over, though.
+    if (redaction.entities.length > 0) {
+      await createRedactedAudio(supabase, { id: jobId, userId: job.user_id }, audio, redaction.entities, DEFAULT_AUDIO_REDACTION_MODE)
+        .then(({ path, mode }) => console.log(`[${jobId}] Stored redacted audio (${mode}): ${path}`))
+        .catch((audioError) => console.error(`[${jobId}] Could not create redacted audio:`, audioError));
+    }
+
+    await updateJob(supabase, jobId, {
+      status: 'analyzing',
+      transcript,
+      segments,
+      words: redaction.redacted.words,
+      pii_entities: redaction.entities,
+      language,
+      stt_provider: speechToText.name,
+      glossary_version: glossary?.version ?? null,
+      duration: Math.round(duration),
+    });
+    console.log(`[${jobId}] Transcription completed, tagging segment languages...`);
+
+    const analysisSegments = toAnalysisSegments(segments, transcript, duration);
+
+    // Language tags are an extra for reviewers; losing them must not cost the analysis
+    try {
+      const languages = await tagSegmentLanguages(analysisSegments, analysisProvider);
+      await updateJob(supabase, jobId, { segment_languages: languages.segments, language_mix: languages.mix });
+    } catch (languageError) {
+      console.error(`[${jobId}] Language tagging failed:`, languageError);
+    }
+    console.log(`[${jobId}] Performing comprehensive call analysis...`);
+
+    const rubric = await resolveRubric(supabase, {
+      userId: job.user_id,
+      rubricId: job.rubric_id,
+      callType: job.requested_call_type,
+    });
+    await updateJob(supabase, jobId, { rubric_id: rubric.id, rubric_version: rubric.version });
+
+    const outcome = await analyzeCall(
+      analysisSegments,
+      duration,
+      rubric,
+      analysisProvider,
+      { agentSide: job.agent_side, callDate: new Date(job.created_at) }
+    );
+    const analysisProviderName = `${analysisProvider.name}/${analysisProvider.model}`;
+
+    // Never substitute a made-up analysis: keep the transcript and record why it failed
+    if (!outcome.ok) {
+      await updateJob(supabase, jobId, {
+        status: 'failed',
+        error: outcome.failure.reason,
+        analysis_failure: redactStrings(outcome.failure),
+        analysis_provider: analysisProviderName,
+      });
+      console.error(`[${jobId}] Analysis failed validation:`, outcome.failure.issues);
+      return;
+    }
+
+    const analysis = redactAnalysis(outcome.analysis);
+    const complianceRules = await loadComplianceRules(supabase, job.organization_id);
+    const compliance = complianceRules ? evaluateCompliance(complianceRules, analysis, duration) : null;
+    if (compliance) {
+      console.log(`[${jobId}] Compliance rules v${compliance.version}: ${compliance.status}`);
+    }
+
+    await storeActionItems(supabase, jobId, job.user_id, analysis);
+    await updateJob(supabase, jobId, {
+      status: 'completed',
+      analysis,
+      analysis_failure: null,
+      conversation_metrics: computeConversationMetrics(outcome.analysis.transcript, duration),
+      compliance,
+      analysis_provider: analysisProviderName,
+    });
+    console.log(`[${jobId}] Comprehensive analysis completed successfully`);
+  } catch (error) {
+    console.error(`[${jobId}] Transcription job failed:`, error);
+    await updateJob(supabase, jobId, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    }).catch((updateError) => console.error(`[${jobId}] Could not record failure:`, updateError));
+  }
+};
+
+// The worker runs under `EdgeRuntime.waitUntil`, which the runtime cuts off at
+// its wall-clock limit (minutes, not hours) without reaching the catch above.
+// Every stage writes to the row, so a job in flight whose row has not changed
+// for this long has no worker left to finish it.
+const STALE_JOB_MS = 15 * 60 * 1000;
+const IN_FLIGHT_STATUSES: TranscriptionStatus[] = ['queued', 'transcribing', 'analyzing'];
+
+// Marks an abandoned job failed when it is read, so the dashboard stops
+// polling it. The update only applies if the row is still as it was read.
+export const failStaleJob = async (supabase: AdminClient, row: TranscriptionRow): Promise<TranscriptionRow> => {
+  if (!IN_FLIGHT_STATUSES.includes(row.status) || Date.now() - Date.parse(row.updated_at) < STALE_JOB_MS) {
+    return row;
+  }
+
+  const { data, error } = await supabase
+    .from('transcriptions')
+    .update({ status: 'failed', error: 'Processing stopped before it finished. Upload the recording again.' })
+    .eq('id', row.id)
+    .eq('status', row.status)
+    .eq('updated_at', row.updated_at)
+    .select(TRANSCRIPTION_JOB_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to mark transcription ${row.id} as failed: ${error.message}`);
+  }
+  if (data) {
+    console.warn(`[${row.id}] Marked failed: still ${row.status} with no update since ${row.updated_at}`);
+  }
+  return data || row;
+};
+
+const flattenAnomalies = (analysis: CallAnalysis | null) =>
+  analysis?.anomalies.flatMap(speaker => [...speaker.positive, ...speaker.negative]) || [];
+
+export const loadUnredactedTranscript = async (
+  supabase: AdminClient,
+  jobId: string
+): Promise<UnredactedTranscript | null> => {
+  const { data, error } = await supabase
+    .from('transcription_unredacted')
+    .select('transcript, segments')
+    .eq('transcription_id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load unredacted transcript for ${jobId}: ${error.message}`);
+  }
+
+  return data;
+};
+
+// What the requester may see beyond the redacted row
+export interface JobAccess {
+  canViewUnredacted: boolean;
+  unredacted: UnredactedTranscript | null;
+}
+
+// Members with unredacted access hear the original. Everyone else gets the
+// redacted copy, or nothing while a call with PII has no copy yet. Paths are
+// signed with the service role, so one outside the call owner's folder is
+// never served, whatever the row says.
+const selectAudioPath = (row: TranscriptionRow, canViewUnredacted: boolean) => {
+  const path = canViewUnredacted || !row.pii_entities?.length ? row.audio_file_path : row.redacted_audio_path;
+  if (!path) return null;
+
+  if (!isOwnAudioPath(path, row.user_id)) {
+    console.warn(`[${row.id}] Refusing to sign audio outside the owner's folder: ${path}`);
+    return null;
+  }
+  return path;
+};
+
+export const toJobResponse = async (
+  supabase: AdminClient,
+  row: TranscriptionRow,
+  access: JobAccess = { canViewUnredacted: false, unredacted: null }
+): Promise<TranscriptionJobResponse> => {
+  const audioPath = selectAudioPath(row, access.canViewUnredacted);
+
+  return {
+    id: row.id,
+    status: row.status,
+    fileName: row.file_name,
+    fileSize: row.file_size || 0,
+    audioUrl: audioPath ? await createAudioUrl(supabase, audioPath) : null,
+    audioRedacted: audioPath !== null && audioPath === row.redacted_audio_path,
+    redactedAudioMode: row.redacted_audio_mode,
+    transcript: row.transcript || '',
+    anomalies: flattenAnomalies(row.analysis),
+    suggestions: row.analysis?.suggestions || [],
+    duration: row.duration || 0,
+    analysis: row.analysis,
+    analysisFailure: row.analysis_failure,
+    rubric: row.rubric_id && row.rubrics
+      ? { id: row.rubric_id, name: row.rubrics.name, version: row.rubric_version || 1 }
+      : null,
+    callTypeOverride: row.call_type_override,
+    agentSide: row.agent_side,
+    segmentLanguages: row.segment_languages,
+    languageMix: row.language_mix,
+    glossaryVersion: row.glossary_version,
+    piiEntities: row.pii_entities,
+    conversationMetrics: row.conversation_metrics,
+    compliance: row.compliance,
+    canViewUnredacted: access.canViewUnredacted,
+    unredacted: access.unredacted,
+    error: row.error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+};
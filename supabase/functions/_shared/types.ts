@@ -0,0 +1,27 @@
+export type {
+  ActionItem,
+  AgentSide,
+  AnalysisFailure,
+  CallAnalysis,
+  CallTypeClassification,
+  ModelCallAnalysis,
+  SegmentSpeaker,
+  ScoreBreakdownItem,
+  Speaker,
+  SpeakerAnomalies,
+  SpeakerSegment,
+} from '../../../src/types/callAnalysisSchema.ts';
+export type { CallType } from '../../../src/types/rubricSchema.ts';
+export type { LanguageMix, SegmentLanguage } from '../../../src/types/languageSchema.ts';
+export type { AudioRedactionMode, PiiEntity } from '../../../src/types/piiSchema.ts';
+export type { ConversationMetrics } from '../../../src/lib/conversationMetrics.ts';
+export type { ComplianceResult } from '../../../src/types/complianceSchema.ts';
+
+// The job response is declared once, next to the app's own types
+export type {
+  RubricReference,
+  TranscriptSegment,
+  TranscriptionJobResponse,
+  TranscriptionStatus,
+  UnredactedTranscript,
+} from '../../../src/types/transcription.ts';
@@ -0,0 +1,68 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { jsonResponse, withCors } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabaseAdmin.ts';
+import { getSignedInUser } from '../_shared/auth.ts';
+import { getUserOrganizationId } from '../_shared/organizations.ts';
+import { AUDIO_BUCKET } from '../_shared/storage.ts';
+import { quotaExceededResponse, releaseUsage, reserveUsage, setUsageAudioPath } from '../_shared/quotas.ts';
+
+interface UploadRequest {
+  fileName: string;
+  fileSize: number;
+  contentType: string;
+}
+
+const ACCEPTED_CONTENT_TYPES = ['audio/wav', 'audio/x-wav', 'audio/mp3', 'audio/mpeg'];
+const MAX_FILE_BYTES = 50 * 1024 * 1024;
+
+// Hands out a one-time upload URL for a recording. Clients cannot write to the
+// audio bucket themselves, so the caller's quotas are checked, and the
+// request counted, before any bytes are stored. `transcribe-audio` then
+// queues the uploaded file against this reservation.
+serve(withCors(async (req) => {
+  try {
+    const supabase = createAdminClient();
+    const user = await getSignedInUser(req, supabase);
+    if (!user) {
+      return jsonResponse({ error: 'Sign in to upload calls' }, 401);
+    }
+
+    const { fileName, fileSize, contentType }: UploadRequest = await req.json();
+
+    if (!fileName) {
+      return jsonResponse({ error: 'File name is required' }, 400);
+    }
+    if (!ACCEPTED_CONTENT_TYPES.includes(contentType)) {
+      return jsonResponse({ error: 'Only WAV and MP3 recordings can be uploaded' }, 400);
+    }
+    if (!(fileSize > 0) || fileSize > MAX_FILE_BYTES) {
+      return jsonResponse({ error: 'Recordings must be smaller than 50MB' }, 400);
+    }
+
+    const organizationId = await getUserOrganizationId(supabase, user.id);
+    const reservation = await reserveUsage(supabase, user.id, organizationId);
+    if (!reservation.reserved) {
+      console.warn(`Rejecting upload from ${user.id}: usage limit reached`);
+      return quotaExceededResponse(reservation.quota);
+    }
+
+    const audioFilePath = `${user.id}/${Date.now()}-${fileName.replace(/[^\w.-]+/g, '_')}`;
+
+    try {
+      const { data, error } = await supabase.storage.from(AUDIO_BUCKET).createSignedUploadUrl(audioFilePath);
+      if (error) {
+        throw new Error(`Failed to create upload URL: ${error.message}`);
+      }
+
+      await setUsageAudioPath(supabase, reservation.usageEventId, audioFilePath);
+      return jsonResponse({ audioFilePath, token: data.token });
+    } catch (error) {
+      await releaseUsage(supabase, reservation.usageEventId);
+      throw error;
+    }
+
+  } catch (error) {
+    console.error('Audio upload error:', error);
+    return jsonResponse({ error: error.message || String(error) }, 500);
+  }
+}));
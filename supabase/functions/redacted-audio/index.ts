@@ -0,0 +1,79 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { jsonResponse, withCors } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabaseAdmin.ts';
+import { getSignedInUser } from '../_shared/auth.ts';
+import { canViewUnredacted } from '../_shared/organizations.ts';
+import { createAudioUrl, downloadAudio } from '../_shared/storage.ts';
+import { createRedactedAudio } from '../_shared/audioRedaction.ts';
+import { PiiEntity } from '../_shared/types.ts';
+import { audioRedactionModeSchema } from '../../../src/types/piiSchema.ts';
+
+interface RedactedAudioRequest {
+  id: string; // transcription id
+  mode: string;
+}
+
+// Re-renders the redacted copy of a call's recording in another mode. The
+// worker creates the first copy after transcription; only members who can
+// hear the original may replace it.
+serve(withCors(async (req) => {
+  try {
+    const { id, mode }: RedactedAudioRequest = await req.json();
+
+    if (!id) {
+      return jsonResponse({ error: 'Transcription id is required' }, 400);
+    }
+
+    const redactionMode = audioRedactionModeSchema.safeParse(mode);
+    if (!redactionMode.success) {
+      return jsonResponse({ error: `Unknown redaction mode: ${mode}` }, 400);
+    }
+
+    const supabase = createAdminClient();
+    const user = await getSignedInUser(req, supabase);
+
+    const { data: transcription, error } = await supabase
+      .from('transcriptions')
+      .select('id, user_id, organization_id, audio_file_path, pii_entities')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load transcription: ${error.message}`);
+    }
+
+    if (!transcription) {
+      return jsonResponse({ error: 'Transcription not found' }, 404);
+    }
+
+    if (!user || !(await canViewUnredacted(supabase, user.id, transcription.organization_id))) {
+      return jsonResponse({ error: 'You do not have access to unredacted recordings' }, 403);
+    }
+
+    const entities: PiiEntity[] = transcription.pii_entities || [];
+    if (!transcription.audio_file_path || entities.length === 0) {
+      return jsonResponse({ error: 'This call has no personal data to mask in its recording' }, 400);
+    }
+
+    const audio = await downloadAudio(supabase, transcription.audio_file_path);
+    const redacted = await createRedactedAudio(
+      supabase,
+      { id, userId: transcription.user_id },
+      audio,
+      entities,
+      redactionMode.data
+    );
+
+    console.log(`[${id}] Re-created redacted audio (${redacted.mode}): ${redacted.path}`);
+
+    return jsonResponse({
+      id,
+      redactedAudioMode: redacted.mode,
+      redactedAudioUrl: await createAudioUrl(supabase, redacted.path),
+    });
+
+  } catch (error) {
+    console.error('Redacted audio error:', error);
+    return jsonResponse({ error: error.message || String(error) }, 500);
+  }
+}));
@@ -0,0 +1,65 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { jsonResponse, withCors } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabaseAdmin.ts';
+import { getSignedInUser } from '../_shared/auth.ts';
+import { canAccessTranscription, canViewUnredacted } from '../_shared/organizations.ts';
+import { TRANSCRIPTION_JOB_COLUMNS, failStaleJob, loadUnredactedTranscript, toJobResponse } from '../_shared/transcriptionJob.ts';
+
+// Status endpoint polled by the dashboard while a job is in flight. A job
+// whose worker was cut off is reported, and recorded, as failed.
+// Accepts the job id either as `?id=` or as `{ id }` in a POST body. Passing
+// `unredacted` (`?unredacted=true` or `{ unredacted: true }`) also returns the
+// original transcript, for users with access to personal data.
+serve(withCors(async (req) => {
+  try {
+    const supabase = createAdminClient();
+    const user = await getSignedInUser(req, supabase);
+    if (!user) {
+      return jsonResponse({ error: 'Sign in to view transcriptions' }, 401);
+    }
+
+    const params = new URL(req.url).searchParams;
+    let id = params.get('id');
+    let unredacted = params.get('unredacted') === 'true';
+    if (!id && req.method === 'POST') {
+      const body = await req.json();
+      id = body.id;
+      unredacted = body.unredacted === true;
+    }
+
+    if (!id) {
+      return jsonResponse({ error: 'No transcription id provided' }, 400);
+    }
+
+    const { data: row, error } = await supabase
+      .from('transcriptions')
+      .select(TRANSCRIPTION_JOB_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load transcription: ${error.message}`);
+    }
+
+    // Someone else's call looks the same as a missing one
+    if (!row || !(await canAccessTranscription(supabase, user.id, row))) {
+      return jsonResponse({ error: 'Transcription not found' }, 404);
+    }
+
+    const data = await failStaleJob(supabase, row);
+
+    const allowed = await canViewUnredacted(supabase, user.id, data.organization_id);
+    if (unredacted && !allowed) {
+      return jsonResponse({ error: 'You do not have access to unredacted transcripts' }, 403);
+    }
+
+    return jsonResponse(await toJobResponse(supabase, data, {
+      canViewUnredacted: allowed,
+      unredacted: unredacted ? await loadUnredactedTranscript(supabase, data.id) : null,
+    }));
+
+  } catch (error) {
+    console.error('Transcription status error:', error);
+    return jsonResponse({ error: error.message || String(error) }, 500);
+  }
+}));
@@ -0,0 +1,25 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { jsonResponse, withCors } from '../_shared/cors.ts';
+import { createAdminClient } from '../_shared/supabaseAdmin.ts';
+import { getSignedInUser } from '../_shared/auth.ts';
+import { getUserOrganizationId } from '../_shared/organizations.ts';
+import { getUsageQuota } from '../_shared/quotas.ts';
+
+// Remaining transcription quota for the signed-in user and their organization,
+// shown next to the upload button. `transcribe-audio` enforces the same numbers.
+serve(withCors(async (req) => {
+  try {
+    const supabase = createAdminClient();
+    const user = await getSignedInUser(req, supabase);
+    if (!user) {
+      return jsonResponse({ error: 'Sign in to see your usage' }, 401);
+    }
+
+    const organizationId = await getUserOrganizationId(supabase, user.id);
+    return jsonResponse(await getUsageQuota(supabase, user.id, organizationId));
+
+  } catch (error) {
+    console.error('Usage quota error:', error);
+    return jsonResponse({ error: error.message || String(error) }, 500);
+  }
+}));
@@ -0,0 +1,14 @@
+-- Track asynchronous transcription jobs on the transcriptions table
+ALTER TABLE public.transcriptions
+ADD COLUMN status TEXT NOT NULL DEFAULT 'queued',
+ADD COLUMN error TEXT;
+
+ALTER TABLE public.transcriptions
+ADD CONSTRAINT transcriptions_status_check
+CHECK (status IN ('queued', 'transcribing', 'analyzing', 'completed', 'failed'));
+
+-- Rows written before the job model existed were all finished synchronously
+UPDATE public.transcriptions SET status = 'completed' WHERE transcript IS NOT NULL;
+
+-- Speed up polling and lookups of in-flight jobs
+CREATE INDEX idx_transcriptions_status ON public.transcriptions (status);
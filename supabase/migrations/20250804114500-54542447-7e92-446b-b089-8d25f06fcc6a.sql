@@ -0,0 +1,3 @@
+-- Store the stitched speech-to-text segments (absolute start/end seconds)
+ALTER TABLE public.transcriptions
+ADD COLUMN segments JSONB;
@@ -0,0 +1,6 @@
+-- Record word-level timings, the detected language and which
+-- speech-to-text backend produced each transcript
+ALTER TABLE public.transcriptions
+ADD COLUMN words JSONB,
+ADD COLUMN language TEXT,
+ADD COLUMN stt_provider TEXT;
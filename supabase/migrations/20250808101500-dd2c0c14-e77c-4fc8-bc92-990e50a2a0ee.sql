@@ -0,0 +1,3 @@
+-- Record which analysis backend and model produced each analysis
+ALTER TABLE public.transcriptions
+ADD COLUMN analysis_provider TEXT;
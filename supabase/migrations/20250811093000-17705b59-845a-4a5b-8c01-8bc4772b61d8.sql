@@ -0,0 +1,3 @@
+-- Why an analysis is missing when the model output never passed validation
+ALTER TABLE public.transcriptions
+ADD COLUMN analysis_failure JSONB;
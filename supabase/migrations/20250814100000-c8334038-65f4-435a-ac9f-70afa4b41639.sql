@@ -0,0 +1,156 @@
+-- Configurable scoring rubrics. Rows with a NULL user_id are built-in and
+-- visible to everyone; every change to the categories creates a new version.
+CREATE TABLE public.rubrics (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID,
+  name TEXT NOT NULL,
+  description TEXT,
+  call_type TEXT CHECK (call_type IN ('sales', 'support', 'consultation', 'inquiry', 'complaint', 'follow-up')),
+  categories JSONB NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Immutable snapshot of each rubric version, referenced by scored calls
+CREATE TABLE public.rubric_versions (
+  rubric_id UUID NOT NULL REFERENCES public.rubrics (id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  categories JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (rubric_id, version)
+);
+
+ALTER TABLE public.rubrics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rubric_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view built-in and their own rubrics" 
+ON public.rubrics 
+FOR SELECT 
+USING (user_id IS NULL OR auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own rubrics" 
+ON public.rubrics 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own rubrics" 
+ON public.rubrics 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own rubrics" 
+ON public.rubrics 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view versions of visible rubrics" 
+ON public.rubric_versions 
+FOR SELECT 
+USING (EXISTS (
+  SELECT 1 FROM public.rubrics
+  WHERE rubrics.id = rubric_versions.rubric_id
+  AND (rubrics.user_id IS NULL OR rubrics.user_id = auth.uid())
+));
+
+-- Bump the version whenever the scoring categories change
+CREATE OR REPLACE FUNCTION public.bump_rubric_version()
+RETURNS TRIGGER 
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.categories IS DISTINCT FROM OLD.categories THEN
+    NEW.version = OLD.version + 1;
+  ELSE
+    NEW.version = OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.snapshot_rubric_version()
+RETURNS TRIGGER 
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO public.rubric_versions (rubric_id, version, name, categories)
+  VALUES (NEW.id, NEW.version, NEW.name, NEW.categories)
+  ON CONFLICT (rubric_id, version) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_rubric_version
+BEFORE UPDATE ON public.rubrics
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_rubric_version();
+
+CREATE TRIGGER snapshot_rubric_version
+AFTER INSERT OR UPDATE ON public.rubrics
+FOR EACH ROW
+EXECUTE FUNCTION public.snapshot_rubric_version();
+
+CREATE TRIGGER update_rubrics_updated_at
+BEFORE UPDATE ON public.rubrics
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record which rubric (and version) scored each call, and any call type
+-- declared at upload time
+ALTER TABLE public.transcriptions
+ADD COLUMN rubric_id UUID REFERENCES public.rubrics (id) ON DELETE SET NULL,
+ADD COLUMN rubric_version INTEGER,
+ADD COLUMN requested_call_type TEXT;
+
+-- Built-in rubric: the 10-point scale previously hard-coded in the prompt
+INSERT INTO public.rubrics (id, user_id, name, description, categories, is_default)
+VALUES (
+  '00000000-0000-0000-0000-000000000001',
+  NULL,
+  'Standard call quality',
+  'General-purpose 10-point rubric for customer service, sales and consultation calls',
+  '[
+    {"name": "Communication Excellence", "weight": 2.5, "criteria": [
+      {"name": "Clarity and articulation", "points": 0.5},
+      {"name": "Professional tone and courtesy", "points": 0.5},
+      {"name": "Language proficiency and fluency", "points": 0.5},
+      {"name": "Voice modulation and pace", "points": 0.5},
+      {"name": "Active listening and responsiveness", "points": 0.5}
+    ]},
+    {"name": "Objective Achievement", "weight": 2.0, "criteria": [
+      {"name": "Call purpose identification", "points": 0.3},
+      {"name": "Goal accomplishment", "points": 0.7},
+      {"name": "Problem resolution effectiveness", "points": 0.5},
+      {"name": "Outcome quality and satisfaction", "points": 0.5}
+    ]},
+    {"name": "Engagement and Interaction", "weight": 1.5, "criteria": [
+      {"name": "Conversation flow and structure", "points": 0.5},
+      {"name": "Question quality and relevance", "points": 0.4},
+      {"name": "Response appropriateness", "points": 0.3},
+      {"name": "Engagement maintenance", "points": 0.3}
+    ]},
+    {"name": "Anomaly Impact Assessment", "weight": 1.5, "guidance": "Weight anomalies by impact: Critical (1.0), Moderate (0.6), Minor (0.3)", "criteria": [
+      {"name": "Positive behavior impact", "points": 0.8},
+      {"name": "Negative behavior mitigation", "points": 0.7}
+    ]},
+    {"name": "Context-Aware Factors", "weight": 1.5, "criteria": [
+      {"name": "Call type appropriateness", "points": 0.3},
+      {"name": "Duration optimization", "points": 0.3},
+      {"name": "Industry-specific considerations", "points": 0.3},
+      {"name": "Language complexity handling", "points": 0.3},
+      {"name": "Cultural sensitivity", "points": 0.3}
+    ]},
+    {"name": "Technical Excellence", "weight": 1.0, "criteria": [
+      {"name": "Call structure and organization", "points": 0.4},
+      {"name": "Time management", "points": 0.3},
+      {"name": "Follow-up planning", "points": 0.3}
+    ]}
+  ]'::jsonb,
+  true
+);
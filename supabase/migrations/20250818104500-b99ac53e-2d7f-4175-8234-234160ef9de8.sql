@@ -0,0 +1,4 @@
+-- A reviewer can correct the call type the analysis detected. The detected
+-- type stays in `analysis`; the override wins wherever the type is shown.
+ALTER TABLE public.transcriptions
+ADD COLUMN call_type_override TEXT CHECK (call_type_override IN ('sales', 'support', 'consultation', 'inquiry', 'complaint', 'follow-up'));
@@ -0,0 +1,27 @@
+-- Analyses now list any number of speakers and refer to them by id. Rewrite
+-- stored two-party analyses (Caller/Receiver) into that shape, treating the
+-- receiver as the agent as the old report did.
+UPDATE public.transcriptions
+SET analysis = (analysis - 'anomalies' - 'transcript') || jsonb_build_object(
+  'speakers', '[
+    {"id": "caller", "label": "Caller", "role": "customer"},
+    {"id": "receiver", "label": "Receiver", "role": "agent"}
+  ]'::jsonb,
+  'transcript', COALESCE((
+    SELECT jsonb_agg(
+      (segment - 'speaker') || jsonb_build_object(
+        'speakerId', CASE WHEN segment->>'speaker' = 'Caller' THEN 'caller' ELSE 'receiver' END
+      )
+      ORDER BY position
+    )
+    FROM jsonb_array_elements(analysis->'transcript') WITH ORDINALITY AS segments (segment, position)
+  ), '[]'::jsonb),
+  'anomalies', jsonb_build_array(
+    jsonb_build_object('speakerId', 'caller')
+      || COALESCE(analysis->'anomalies'->'caller', '{"positive": [], "negative": []}'::jsonb),
+    jsonb_build_object('speakerId', 'receiver')
+      || COALESCE(analysis->'anomalies'->'receiver', '{"positive": [], "negative": []}'::jsonb)
+  )
+)
+WHERE analysis IS NOT NULL
+AND jsonb_typeof(analysis->'anomalies') = 'object';
@@ -0,0 +1,23 @@
+-- Which side of the call the agent is on, when the uploader knows it.
+-- 'caller' means the agent placed the call (outbound), 'receiver' that they
+-- answered it (inbound). NULL leaves role detection entirely to the analysis.
+ALTER TABLE public.transcriptions
+ADD COLUMN agent_side TEXT CHECK (agent_side IN ('caller', 'receiver'));
+
+-- Speakers now carry the confidence and evidence behind their role. Analyses
+-- converted from the two-party format only ever had an assumed agent.
+UPDATE public.transcriptions
+SET analysis = jsonb_set(analysis, '{speakers}', (
+  SELECT jsonb_agg(
+    speaker || jsonb_build_object(
+      'roleConfidence', 0.5,
+      'roleEvidence', 'Assumed from the legacy two-party format (the receiver was treated as the agent)'
+    )
+    ORDER BY position
+  )
+  FROM jsonb_array_elements(analysis->'speakers') WITH ORDINALITY AS speakers (speaker, position)
+))
+WHERE analysis IS NOT NULL
+AND jsonb_typeof(analysis->'speakers') = 'array'
+AND jsonb_array_length(analysis->'speakers') > 0
+AND NOT (analysis->'speakers'->0 ? 'roleConfidence');
@@ -0,0 +1,5 @@
+-- Per-segment language tags with optional English translations, and the
+-- call-level language shares and code-mixing ratio derived from them
+ALTER TABLE public.transcriptions
+ADD COLUMN segment_languages JSONB,
+ADD COLUMN language_mix JSONB;
@@ -0,0 +1,196 @@
+-- Organizations group users that share settings such as the glossary. Every
+-- user gets a personal organization on sign-up.
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.organization_members (
+  organization_id UUID NOT NULL REFERENCES public.organizations (id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX idx_organization_members_user_id ON public.organization_members (user_id);
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+-- Membership checks run as the definer so policies on organization_members
+-- can use them without recursing into themselves
+CREATE OR REPLACE FUNCTION public.is_organization_member(org_id UUID, roles TEXT[] DEFAULT NULL)
+RETURNS BOOLEAN
+STABLE
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE organization_id = org_id
+    AND user_id = auth.uid()
+    AND (roles IS NULL OR role = ANY (roles))
+  );
+$$;
+
+CREATE POLICY "Members can view their organizations"
+ON public.organizations
+FOR SELECT
+USING (public.is_organization_member(id));
+
+CREATE POLICY "Owners can rename their organizations"
+ON public.organizations
+FOR UPDATE
+USING (public.is_organization_member(id, ARRAY['owner']));
+
+CREATE POLICY "Members can view memberships of their organizations"
+ON public.organization_members
+FOR SELECT
+USING (public.is_organization_member(organization_id));
+
+CREATE TRIGGER update_organizations_updated_at
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.create_personal_organization()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  org_id UUID;
+BEGIN
+  INSERT INTO public.organizations (name)
+  VALUES (COALESCE(NEW.email, 'Personal') || ' workspace')
+  RETURNING id INTO org_id;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role)
+  VALUES (org_id, NEW.id, 'owner');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_personal_organization
+AFTER INSERT ON auth.users
+FOR EACH ROW
+EXECUTE FUNCTION public.create_personal_organization();
+
+-- Existing users get their personal organization now
+DO $$
+DECLARE
+  existing_user RECORD;
+  org_id UUID;
+BEGIN
+  FOR existing_user IN SELECT id, email FROM auth.users LOOP
+    INSERT INTO public.organizations (name)
+    VALUES (COALESCE(existing_user.email, 'Personal') || ' workspace')
+    RETURNING id INTO org_id;
+
+    INSERT INTO public.organization_members (organization_id, user_id, role)
+    VALUES (org_id, existing_user.id, 'owner');
+  END LOOP;
+END;
+$$;
+
+-- One glossary per organization; every change to the terms creates a new version
+CREATE TABLE public.glossaries (
+  organization_id UUID NOT NULL PRIMARY KEY REFERENCES public.organizations (id) ON DELETE CASCADE,
+  terms JSONB NOT NULL DEFAULT '[]'::jsonb,
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Immutable snapshot of each glossary version, referenced by transcriptions
+CREATE TABLE public.glossary_versions (
+  organization_id UUID NOT NULL REFERENCES public.glossaries (organization_id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  terms JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, version)
+);
+
+ALTER TABLE public.glossaries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.glossary_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization glossary"
+ON public.glossaries
+FOR SELECT
+USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Owners and admins can create the organization glossary"
+ON public.glossaries
+FOR INSERT
+WITH CHECK (public.is_organization_member(organization_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY "Owners and admins can update the organization glossary"
+ON public.glossaries
+FOR UPDATE
+USING (public.is_organization_member(organization_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY "Members can view glossary versions"
+ON public.glossary_versions
+FOR SELECT
+USING (public.is_organization_member(organization_id));
+
+CREATE OR REPLACE FUNCTION public.bump_glossary_version()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.terms IS DISTINCT FROM OLD.terms THEN
+    NEW.version = OLD.version + 1;
+  ELSE
+    NEW.version = OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.snapshot_glossary_version()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO public.glossary_versions (organization_id, version, terms)
+  VALUES (NEW.organization_id, NEW.version, NEW.terms)
+  ON CONFLICT (organization_id, version) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_glossary_version
+BEFORE UPDATE ON public.glossaries
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_glossary_version();
+
+CREATE TRIGGER snapshot_glossary_version
+AFTER INSERT OR UPDATE ON public.glossaries
+FOR EACH ROW
+EXECUTE FUNCTION public.snapshot_glossary_version();
+
+CREATE TRIGGER update_glossaries_updated_at
+BEFORE UPDATE ON public.glossaries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Record the organization each call was uploaded under and the glossary
+-- version its transcript was normalized with
+ALTER TABLE public.transcriptions
+ADD COLUMN organization_id UUID REFERENCES public.organizations (id) ON DELETE SET NULL,
+ADD COLUMN glossary_version INTEGER;
+
+UPDATE public.transcriptions t
+SET organization_id = m.organization_id
+FROM public.organization_members m
+WHERE m.user_id = t.user_id;
@@ -0,0 +1,65 @@
+-- PII redaction. From now on `transcriptions.transcript`, `segments`, `words`
+-- and `analysis` hold the redacted text; the original transcript is kept in
+-- `transcription_unredacted`, readable only by members granted access.
+-- Calls transcribed before this migration were never scanned and keep a NULL
+-- `pii_entities`.
+ALTER TABLE public.transcriptions
+ADD COLUMN pii_entities JSONB;
+
+ALTER TABLE public.organization_members
+ADD COLUMN can_view_unredacted BOOLEAN NOT NULL DEFAULT false;
+
+-- A personal organization only holds its owner's own calls
+UPDATE public.organization_members SET can_view_unredacted = true WHERE role = 'owner';
+
+CREATE OR REPLACE FUNCTION public.create_personal_organization()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  org_id UUID;
+BEGIN
+  INSERT INTO public.organizations (name)
+  VALUES (COALESCE(NEW.email, 'Personal') || ' workspace')
+  RETURNING id INTO org_id;
+
+  INSERT INTO public.organization_members (organization_id, user_id, role, can_view_unredacted)
+  VALUES (org_id, NEW.id, 'owner', true);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TABLE public.transcription_unredacted (
+  transcription_id UUID NOT NULL PRIMARY KEY REFERENCES public.transcriptions (id) ON DELETE CASCADE,
+  transcript TEXT NOT NULL,
+  segments JSONB NOT NULL,
+  words JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.transcription_unredacted ENABLE ROW LEVEL SECURITY;
+
+-- Access follows the organization the call was uploaded under, not the uploader
+CREATE OR REPLACE FUNCTION public.can_view_unredacted(target_transcription_id UUID)
+RETURNS BOOLEAN
+STABLE
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.transcriptions t
+    JOIN public.organization_members m ON m.organization_id = t.organization_id
+    WHERE t.id = target_transcription_id
+    AND m.user_id = auth.uid()
+    AND m.can_view_unredacted
+  );
+$$;
+
+CREATE POLICY "Privileged members can view unredacted transcripts"
+ON public.transcription_unredacted
+FOR SELECT
+USING (public.can_view_unredacted(transcription_id));
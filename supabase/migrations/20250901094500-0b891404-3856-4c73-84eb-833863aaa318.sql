@@ -0,0 +1,12 @@
+-- Redacted copy of the recording with PII spans bleeped or silenced. It is
+-- rendered in the browser of a member with unredacted access, uploaded to
+-- `audio-files` under that member's folder, and served to everyone else.
+ALTER TABLE public.transcriptions
+ADD COLUMN redacted_audio_path TEXT,
+ADD COLUMN redacted_audio_mode TEXT CHECK (redacted_audio_mode IN ('tone', 'silence'));
+
+-- Re-rendering a redacted copy overwrites the previous one
+CREATE POLICY "Users can update their own audio files" 
+ON storage.objects 
+FOR UPDATE 
+USING (bucket_id = 'audio-files' AND auth.uid()::text = (storage.foldername(name))[1]);
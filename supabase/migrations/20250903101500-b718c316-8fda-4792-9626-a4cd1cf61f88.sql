@@ -0,0 +1,4 @@
+-- Talk time, turns, overlaps and silences computed from the speaker-labelled
+-- segments when the analysis completes
+ALTER TABLE public.transcriptions
+ADD COLUMN conversation_metrics JSONB;
@@ -0,0 +1,57 @@
+-- Compliance rules: phrases agents must or must not say. One rule set per
+-- organization; every change to the rules bumps its version, and each call
+-- stores its checklist together with the version it was checked against.
+CREATE TABLE public.compliance_rule_sets (
+  organization_id UUID NOT NULL PRIMARY KEY REFERENCES public.organizations (id) ON DELETE CASCADE,
+  rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+  version INTEGER NOT NULL DEFAULT 1,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.compliance_rule_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their organization compliance rules"
+ON public.compliance_rule_sets
+FOR SELECT
+USING (public.is_organization_member(organization_id));
+
+CREATE POLICY "Owners and admins can create the organization compliance rules"
+ON public.compliance_rule_sets
+FOR INSERT
+WITH CHECK (public.is_organization_member(organization_id, ARRAY['owner', 'admin']));
+
+CREATE POLICY "Owners and admins can update the organization compliance rules"
+ON public.compliance_rule_sets
+FOR UPDATE
+USING (public.is_organization_member(organization_id, ARRAY['owner', 'admin']));
+
+CREATE OR REPLACE FUNCTION public.bump_compliance_rule_set_version()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.rules IS DISTINCT FROM OLD.rules THEN
+    NEW.version = OLD.version + 1;
+  ELSE
+    NEW.version = OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_compliance_rule_set_version
+BEFORE UPDATE ON public.compliance_rule_sets
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_compliance_rule_set_version();
+
+CREATE TRIGGER update_compliance_rule_sets_updated_at
+BEFORE UPDATE ON public.compliance_rule_sets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- NULL for calls analysed before the organization had rules
+ALTER TABLE public.transcriptions
+ADD COLUMN compliance JSONB;
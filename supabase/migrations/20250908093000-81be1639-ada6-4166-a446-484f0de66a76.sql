@@ -0,0 +1,38 @@
+-- Commitments made on a call ("I'll send the invoice by Friday"), extracted
+-- by the analysis. They also live in `transcriptions.analysis.actionItems`;
+-- this table is what the task list reads and marks done.
+CREATE TABLE public.action_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transcription_id UUID NOT NULL REFERENCES public.transcriptions (id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  owner TEXT NOT NULL CHECK (owner IN ('agent', 'customer')),
+  description TEXT NOT NULL,
+  due_text TEXT,
+  due_date DATE,
+  segment_id INTEGER NOT NULL,
+  segment_start DOUBLE PRECISION NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_action_items_user_id ON public.action_items (user_id, completed_at);
+CREATE INDEX idx_action_items_transcription_id ON public.action_items (transcription_id);
+
+ALTER TABLE public.action_items ENABLE ROW LEVEL SECURITY;
+
+-- Items are created by the worker; users can only read theirs and mark them done
+CREATE POLICY "Users can view their own action items"
+ON public.action_items
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own action items"
+ON public.action_items
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_action_items_updated_at
+BEFORE UPDATE ON public.action_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,25 @@
+-- Usage ledger for the transcription endpoint: one row per accepted request.
+-- `transcribe-audio` counts these rows against its per-user and
+-- per-organization limits; the worker fills in `audio_seconds` once the
+-- recording has been transcribed.
+CREATE TABLE public.usage_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  organization_id UUID REFERENCES public.organizations (id) ON DELETE SET NULL,
+  transcription_id UUID REFERENCES public.transcriptions (id) ON DELETE SET NULL,
+  audio_seconds DOUBLE PRECISION NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_usage_events_user_id ON public.usage_events (user_id, created_at);
+CREATE INDEX idx_usage_events_organization_id ON public.usage_events (organization_id, created_at);
+CREATE INDEX idx_usage_events_transcription_id ON public.usage_events (transcription_id);
+
+ALTER TABLE public.usage_events ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by the edge functions only; deleting a transcription must
+-- not hand its audio minutes back, hence SET NULL above
+CREATE POLICY "Users can view their own usage"
+ON public.usage_events
+FOR SELECT
+USING (auth.uid() = user_id);
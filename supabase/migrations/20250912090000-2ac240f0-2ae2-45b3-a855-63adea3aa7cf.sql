@@ -0,0 +1,7 @@
+-- The edge functions sign `audio_file_path` and `redacted_audio_path` with the
+-- service role, and the worker owns the transcript, PII and analysis columns.
+-- The owner-only UPDATE policy did not stop a client from rewriting any of
+-- them, so client updates are narrowed to the one column the app edits: the
+-- reviewer's call type override. Service-role writes are unaffected.
+REVOKE UPDATE ON public.transcriptions FROM anon, authenticated;
+GRANT UPDATE (call_type_override) ON public.transcriptions TO authenticated;
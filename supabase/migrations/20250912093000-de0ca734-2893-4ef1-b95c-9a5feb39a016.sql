@@ -0,0 +1,13 @@
+-- Reviewers correct the call type of colleagues' calls, not only their own.
+-- Members can already open those calls through `transcription-status`, so
+-- they may read the rows and update them; the column grants only let clients
+-- touch `call_type_override`.
+CREATE POLICY "Members can view their organization's transcriptions"
+ON public.transcriptions
+FOR SELECT
+USING (organization_id IS NOT NULL AND public.is_organization_member(organization_id));
+
+CREATE POLICY "Members can update their organization's transcriptions"
+ON public.transcriptions
+FOR UPDATE
+USING (organization_id IS NOT NULL AND public.is_organization_member(organization_id));
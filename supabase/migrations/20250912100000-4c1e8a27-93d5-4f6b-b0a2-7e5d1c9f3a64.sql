@@ -0,0 +1,29 @@
+-- Action items follow the call they came from: members who can open a
+-- colleague's call also see its commitments and can mark them done.
+-- Clients only ever toggle `completed_at`.
+CREATE POLICY "Members can view their organization's action items"
+ON public.action_items
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.transcriptions t
+    WHERE t.id = transcription_id
+      AND t.organization_id IS NOT NULL
+      AND public.is_organization_member(t.organization_id)
+  )
+);
+
+CREATE POLICY "Members can update their organization's action items"
+ON public.action_items
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.transcriptions t
+    WHERE t.id = transcription_id
+      AND t.organization_id IS NOT NULL
+      AND public.is_organization_member(t.organization_id)
+  )
+);
+
+REVOKE UPDATE ON public.action_items FROM anon, authenticated;
+GRANT UPDATE (completed_at) ON public.action_items TO authenticated;
@@ -0,0 +1,42 @@
+-- Immutable snapshot of each compliance rule set version, so a call's
+-- checklist can be traced back to the exact rules it was checked against
+-- after the rules have been edited
+CREATE TABLE public.compliance_rule_set_versions (
+  organization_id UUID NOT NULL REFERENCES public.compliance_rule_sets (organization_id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  rules JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, version)
+);
+
+ALTER TABLE public.compliance_rule_set_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view compliance rule set versions"
+ON public.compliance_rule_set_versions
+FOR SELECT
+USING (public.is_organization_member(organization_id));
+
+CREATE OR REPLACE FUNCTION public.snapshot_compliance_rule_set_version()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO public.compliance_rule_set_versions (organization_id, version, rules)
+  VALUES (NEW.organization_id, NEW.version, NEW.rules)
+  ON CONFLICT (organization_id, version) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER snapshot_compliance_rule_set_version
+AFTER INSERT OR UPDATE ON public.compliance_rule_sets
+FOR EACH ROW
+EXECUTE FUNCTION public.snapshot_compliance_rule_set_version();
+
+-- Earlier versions were not kept; the current one is what recent calls used
+INSERT INTO public.compliance_rule_set_versions (organization_id, version, rules)
+SELECT organization_id, version, rules
+FROM public.compliance_rule_sets
+ON CONFLICT (organization_id, version) DO NOTHING;
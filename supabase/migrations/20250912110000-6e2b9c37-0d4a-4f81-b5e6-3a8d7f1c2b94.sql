@@ -0,0 +1,26 @@
+-- Redacted copies are now rendered by the worker and stored under the call
+-- owner's `redacted/` folder with the service role. Clients no longer write
+-- there, so an owner cannot swap the copy others hear for the original.
+DROP POLICY "Users can update their own audio files" ON storage.objects;
+
+DROP POLICY "Users can upload their own audio files" ON storage.objects;
+
+CREATE POLICY "Users can upload their own audio files"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'audio-files'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+  AND (storage.foldername(name))[2] IS DISTINCT FROM 'redacted'
+);
+
+DROP POLICY "Users can delete their own audio files" ON storage.objects;
+
+CREATE POLICY "Users can delete their own audio files"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'audio-files'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+  AND (storage.foldername(name))[2] IS DISTINCT FROM 'redacted'
+);
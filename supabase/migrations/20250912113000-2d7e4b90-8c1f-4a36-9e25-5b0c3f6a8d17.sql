@@ -0,0 +1,113 @@
+-- Quota checks sum usage in the database. Loading the ledger rows into the
+-- edge function stopped at the API's row limit, so a busy organization was
+-- under-counted. `reserve_usage` checks the limits and records the request in
+-- one transaction, under a lock per user and organization, so concurrent
+-- requests cannot all take the last free slot.
+
+-- Usage of one user or organization in each quota window. The request window
+-- is the last minute; the audio windows follow the UTC calendar.
+CREATE OR REPLACE FUNCTION public.usage_totals(scope TEXT, scope_id UUID)
+RETURNS JSONB
+STABLE
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  minute_start TIMESTAMP WITH TIME ZONE := now() - interval '1 minute';
+  day_start TIMESTAMP WITH TIME ZONE := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  month_start TIMESTAMP WITH TIME ZONE := date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  totals JSONB;
+BEGIN
+  EXECUTE format(
+    'SELECT jsonb_build_object(
+       ''requestsLastMinute'', count(*) FILTER (WHERE created_at > $1),
+       ''oldestRequestAt'', min(created_at) FILTER (WHERE created_at > $1),
+       ''audioSecondsToday'', coalesce(sum(audio_seconds) FILTER (WHERE created_at >= $2), 0),
+       ''audioSecondsThisMonth'', coalesce(sum(audio_seconds) FILTER (WHERE created_at >= $3), 0)
+     )
+     FROM public.usage_events
+     WHERE %I = $4 AND created_at >= LEAST($1, $3)',
+    CASE scope WHEN 'user' THEN 'user_id' ELSE 'organization_id' END
+  )
+  INTO totals
+  USING minute_start, day_start, month_start, scope_id;
+
+  RETURN totals;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_usage_totals(for_user_id UUID, for_organization_id UUID)
+RETURNS JSONB
+STABLE
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE sql
+AS $$
+  SELECT jsonb_build_object(
+    'user', public.usage_totals('user', for_user_id),
+    'organization', CASE WHEN for_organization_id IS NULL THEN NULL
+      ELSE public.usage_totals('organization', for_organization_id) END
+  );
+$$;
+
+-- Same rule as `summarizeUsage`: a quota is used up once the requests reach
+-- the limit, or the audio minutes, rounded to one decimal, do. A missing or
+-- null limit is not enforced.
+CREATE OR REPLACE FUNCTION public.usage_within_limits(totals JSONB, limits JSONB)
+RETURNS BOOLEAN
+IMMUTABLE
+LANGUAGE sql
+AS $$
+  SELECT
+    (limits ->> 'requestsPerMinute' IS NULL
+      OR (totals ->> 'requestsLastMinute')::NUMERIC < (limits ->> 'requestsPerMinute')::NUMERIC)
+    AND (limits ->> 'audioMinutesPerDay' IS NULL
+      OR round((totals ->> 'audioSecondsToday')::NUMERIC / 60, 1) < (limits ->> 'audioMinutesPerDay')::NUMERIC)
+    AND (limits ->> 'audioMinutesPerMonth' IS NULL
+      OR round((totals ->> 'audioSecondsThisMonth')::NUMERIC / 60, 1) < (limits ->> 'audioMinutesPerMonth')::NUMERIC);
+$$;
+
+-- Records a request if every quota has room. Returns whether it did, the new
+-- ledger row and the totals it was checked against.
+CREATE OR REPLACE FUNCTION public.reserve_usage(
+  for_user_id UUID,
+  for_organization_id UUID,
+  user_limits JSONB,
+  organization_limits JSONB
+)
+RETURNS JSONB
+SECURITY DEFINER
+SET search_path = public
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  totals JSONB;
+  event_id UUID;
+BEGIN
+  -- Always user before organization, so two requests never wait on each other
+  PERFORM pg_advisory_xact_lock(hashtextextended('usage:user:' || for_user_id::TEXT, 0));
+  IF for_organization_id IS NOT NULL THEN
+    PERFORM pg_advisory_xact_lock(hashtextextended('usage:organization:' || for_organization_id::TEXT, 0));
+  END IF;
+
+  totals := public.get_usage_totals(for_user_id, for_organization_id);
+
+  IF public.usage_within_limits(totals -> 'user', user_limits)
+    AND (for_organization_id IS NULL OR public.usage_within_limits(totals -> 'organization', organization_limits))
+  THEN
+    INSERT INTO public.usage_events (user_id, organization_id)
+    VALUES (for_user_id, for_organization_id)
+    RETURNING id INTO event_id;
+  END IF;
+
+  RETURN jsonb_build_object('reserved', event_id IS NOT NULL, 'usageEventId', event_id, 'totals', totals);
+END;
+$$;
+
+-- Only the edge functions, using the service role, read and reserve usage
+REVOKE EXECUTE ON FUNCTION public.usage_totals(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_usage_totals(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reserve_usage(UUID, UUID, JSONB, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_usage_totals(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.reserve_usage(UUID, UUID, JSONB, JSONB) TO service_role;
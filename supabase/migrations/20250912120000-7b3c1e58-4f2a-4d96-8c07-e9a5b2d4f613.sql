@@ -0,0 +1,15 @@
+-- Recordings are uploaded through one-time URLs from `audio-upload`, which
+-- checks the caller's quotas first. Clients lose direct write access to the
+-- bucket, so an over-quota user cannot keep filling it.
+ALTER TABLE public.usage_events
+ADD COLUMN audio_file_path TEXT;
+
+CREATE INDEX idx_usage_events_audio_file_path ON public.usage_events (user_id, audio_file_path);
+
+DROP POLICY "Users can upload their own audio files" ON storage.objects;
+
+-- Signed uploads are still held to what the uploader accepts
+UPDATE storage.buckets
+SET file_size_limit = 52428800,
+    allowed_mime_types = ARRAY['audio/wav', 'audio/x-wav', 'audio/mp3', 'audio/mpeg']
+WHERE id = 'audio-files';
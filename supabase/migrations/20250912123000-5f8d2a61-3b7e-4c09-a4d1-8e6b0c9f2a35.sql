@@ -0,0 +1,12 @@
+-- `transcribe-audio` inserts jobs as the caller, and members can read their
+-- organization's calls, so a call may only be filed under an organization
+-- the caller belongs to
+DROP POLICY "Users can create their own transcriptions" ON public.transcriptions;
+
+CREATE POLICY "Users can create their own transcriptions"
+ON public.transcriptions
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (organization_id IS NULL OR public.is_organization_member(organization_id))
+);